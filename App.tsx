@@ -1,22 +1,97 @@
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { FileData, ConversionStatus, ProcessingStats } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  FileData, ConversionStatus, ProcessingStats, ConversionOptions, MergedOutput, ImageTransform, SortKey,
+  DocumentMetadata, Quad,
+} from './types';
 import DropZone from './components/DropZone';
 import FileList from './components/FileList';
-import { convertImageToPDF, createZipFromFiles } from './utils/pdfConverter';
+import OutputSettings from './components/OutputSettings';
+import InputSettings from './components/InputSettings';
+import LayoutSettings from './components/LayoutSettings';
+import ExportSettings from './components/ExportSettings';
+import OptimizeSettings from './components/OptimizeSettings';
+import StorageStatus from './components/StorageStatus';
+import MetadataSettings from './components/MetadataSettings';
+import StampSettings from './components/StampSettings';
+import SecuritySettings from './components/SecuritySettings';
+import OcrSettings from './components/OcrSettings';
+import CleanupSettings from './components/CleanupSettings';
+import ScanEditor from './components/ScanEditor';
+import DuplicateReview from './components/DuplicateReview';
+import ImportSummary from './components/ImportSummary';
+import PresetSettings from './components/PresetSettings';
+import RunSummary from './components/RunSummary';
+import { DEFAULT_OPTIONS } from './constants';
+import { getFileEntries, getMergedEntries, getZipFileName, splitEntries, writeZip } from './utils/zipExport';
+import {
+  canSaveToFolder, chooseZipDestination, getZipPartSizeMb, isPickerDismissed, openOutputFolder, OutputFolder, pickFolder, ZipDestination,
+} from './utils/exportTarget';
+import { createWorkerPool, WorkerPool } from './utils/workerPool';
+import { RUNNABLE_STATUSES, runQueue, selectQueue } from './utils/conversionRun';
+import { detectFileFormat, readCaptureTime } from './utils/imageFormat';
+import { moveFile, sortFiles, SortDirection } from './utils/sorting';
+import { collectInputFiles, ImportBatch, SkippedFile } from './utils/folderImport';
+import { formatBytes } from './utils/format';
+import { findDuplicateGroups, hashImages, ImageHashes } from './utils/duplicates';
+import { handleLaunchFiles, takeSharedFiles } from './utils/pwa';
+import { recognizeImage, terminateOcr } from './utils/ocr';
+import { Preset, sortPresets } from './utils/presets';
+import { finishRun, getProgressPercent, INITIAL_STATS, recordOutcome, startRun } from './utils/runStats';
+import { buildRunReport, RunReport } from './utils/runReport';
+import {
+  deletePreset, getStorageUsage, loadPresets, loadSession, omitPasswords, purgeSession, savePreset, saveFiles,
+  saveSessionValue, StorageUsage,
+} from './utils/persistence';
 import saveAs from 'file-saver';
-import { Trash2, Download, Zap, RefreshCw, FileText, FileImage } from 'lucide-react';
+import { Trash2, Download, Zap, RefreshCw, FileText, FileImage, Pause, Play, Square, Lock } from 'lucide-react';
+
+// Everything the last conversion of a file left behind
+const CLEARED_RESULT: Partial<FileData> = {
+  pdfBlob: undefined,
+  outputSize: undefined,
+  durationMs: undefined,
+  error: undefined,
+  errorCategory: undefined,
+  errorDetail: undefined,
+  warnings: undefined,
+  savedTo: undefined,
+};
 
 const App: React.FC = () => {
   const [files, setFiles] = useState<FileData[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [stats, setStats] = useState<ProcessingStats>({
-    total: 0,
-    processed: 0,
-    success: 0,
-    failed: 0,
-    startTime: null,
-    endTime: null,
-  });
+  const [isPaused, setIsPaused] = useState(false);
+  const [stats, setStats] = useState<ProcessingStats>(INITIAL_STATS);
+  // The last finished run as it ended, so settings changed since then don't rewrite its report
+  const [lastReport, setLastReport] = useState<RunReport | null>(null);
+  const reportedRunRef = useRef<number | null>(null);
+  const [options, setOptions] = useState<ConversionOptions>(DEFAULT_OPTIONS);
+  const [mergedOutputs, setMergedOutputs] = useState<MergedOutput[]>([]);
+  // Files the last import left out, shown until dismissed
+  const [skippedFiles, setSkippedFiles] = useState<SkippedFile[]>([]);
+  // File open in the scan cleanup editor
+  const [editingScanId, setEditingScanId] = useState<string | null>(null);
+  const poolRef = useRef<WorkerPool | null>(null);
+  // Abort handles for the current run, keyed by file id (or group in merge mode)
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Nothing is saved until the previous session has been read back, or it would be overwritten
+  const [isRestored, setIsRestored] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // The queue as last written to IndexedDB, so only changes are saved
+  const persistedRef = useRef<Map<string, FileData>>(new Map());
+  // Queue saves run one after another, each diffed against the last one that succeeded
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const [presets, setPresets] = useState<Preset[]>([]);
+  // Protection came back from the saved session or a preset, which never hold passwords:
+  // converting waits until they're typed again, or the user confirms going without
+  const [passwordsNeeded, setPasswordsNeeded] = useState(false);
+  // Folder PDFs are written into as they finish, when saving to a folder; kept for the session
+  const outputFolderRef = useRef<OutputFolder | null>(null);
+  const [outputFolderName, setOutputFolderName] = useState<string | null>(null);
+  // Set while ZIPs are being written; `waiting` while a downloaded part waits for its click
+  const [zipProgress, setZipProgress] = useState<{ part: number; parts: number; percent: number; waiting?: boolean } | null>(null);
+  // Settles the part waiting for its download click
+  const zipDownloadRef = useRef<{ resolve: () => void; reject: (reason: unknown) => void } | null>(null);
 
   // Cleanup object URLs to avoid memory leaks
   useEffect(() => {
@@ -26,16 +101,134 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run on unmount of the entire app, essentially
 
-  const handleFilesAdded = useCallback((newFiles: File[]) => {
-    const newFileData: FileData[] = newFiles.map(f => ({
-      id: crypto.randomUUID(),
-      file: f,
-      previewUrl: URL.createObjectURL(f),
-      status: ConversionStatus.IDLE,
-    }));
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(err => console.error('Failed to estimate storage usage', err));
+  }, []);
+
+  // Hashes arrive one by one after import, for duplicate detection
+  const recordHashes = useCallback((id: string, hashes: ImageHashes) => {
+    setFiles(prev => prev.map(f => (f.id === id ? { ...f, ...hashes } : f)));
+  }, []);
+
+  // Restore the queue, results and settings saved before the last reload
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        persistedRef.current = new Map(session.files.map(f => [f.id, f]));
+        if (session.files.length > 0) {
+          setFiles(prev => [...session.files, ...prev]);
+          // Sessions saved before duplicate detection existed have no hashes yet
+          hashImages(session.files.filter(f => f.format && !f.contentHash), recordHashes);
+        }
+        if (session.options) {
+          setOptions(session.options);
+          setPasswordsNeeded(session.options.security.enabled);
+        }
+        if (session.stats) setStats(session.stats);
+        if (session.mergedOutputs) setMergedOutputs(session.mergedOutputs);
+      })
+      .catch(err => console.error('Failed to restore saved session', err))
+      .finally(() => {
+        setIsRestored(true);
+        refreshStorageUsage();
+      });
+  }, [refreshStorageUsage, recordHashes]);
+
+  useEffect(() => {
+    loadPresets()
+      .then(saved => setPresets(sortPresets(saved)))
+      .catch(err => console.error('Failed to load presets', err));
+  }, []);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    // A failed write leaves the snapshot alone, so the next save writes its changes again
+    const snapshot = new Map(files.map(f => [f.id, f]));
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => saveFiles(files, persistedRef.current))
+      .then(() => {
+        persistedRef.current = snapshot;
+        refreshStorageUsage();
+      })
+      .catch(err => console.error('Failed to save queue', err));
+  }, [files, isRestored, refreshStorageUsage]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveSessionValue('options', omitPasswords(options)).catch(err => console.error('Failed to save options', err));
+  }, [options, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveSessionValue('stats', stats).catch(err => console.error('Failed to save stats', err));
+  }, [stats, isRestored]);
+
+  // Taken once per run, after its last file update has landed
+  useEffect(() => {
+    if (isProcessing || stats.endTime === reportedRunRef.current) return;
+    reportedRunRef.current = stats.endTime;
+    setLastReport(stats.endTime === null ? null : buildRunReport(files, stats, stats.endTime));
+  }, [files, stats, isProcessing]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveSessionValue('mergedOutputs', mergedOutputs)
+      .then(refreshStorageUsage)
+      .catch(err => console.error('Failed to save merged PDFs', err));
+  }, [mergedOutputs, isRestored, refreshStorageUsage]);
+
+  const handleFilesAdded = useCallback(async (batch: ImportBatch) => {
+    const detections = await Promise.all(batch.files.map(f => detectFileFormat(f.file)));
+    const skipped = [...batch.skipped];
+    const accepted: number[] = [];
+    batch.files.forEach((f, i) => {
+      // Folders bring along whatever else sits next to the scans; only individually
+      // picked files are listed as unsupported
+      if (f.fromFolder && !detections[i].format && !f.file.type.startsWith('image/')) {
+        skipped.push({ path: f.relativePath, reason: 'not-image' });
+      } else {
+        accepted.push(i);
+      }
+    });
+
+    const captureTimes = await Promise.all(
+      accepted.map(i => readCaptureTime(batch.files[i].file, detections[i].format))
+    );
+    const newFileData: FileData[] = accepted.map((i, n) => {
+      const { file, relativePath } = batch.files[i];
+      return {
+        id: crypto.randomUUID(),
+        file,
+        relativePath,
+        previewUrl: URL.createObjectURL(file),
+        status: detections[i].format ? ConversionStatus.IDLE : ConversionStatus.UNSUPPORTED,
+        format: detections[i].format ?? undefined,
+        capturedAt: captureTimes[n],
+        error: detections[i].reason,
+        errorCategory: detections[i].format ? undefined : 'unsupported',
+      };
+    });
     
+    setSkippedFiles(skipped);
+    if (newFileData.length === 0) return;
     setFiles(prev => [...prev, ...newFileData]);
-  }, []);
+    // Merged documents no longer reflect the whole queue
+    setMergedOutputs([]);
+    // Hashing decodes every image, so it runs after the files are already listed
+    hashImages(newFileData.filter(f => f.format), recordHashes);
+  }, [recordHashes]);
+
+  // Images opened with the installed app, or shared to it from another app, join the queue like a drop
+  useEffect(() => {
+    handleLaunchFiles(launched => handleFilesAdded(collectInputFiles(launched)));
+    takeSharedFiles()
+      .then(shared => {
+        if (shared.length > 0) handleFilesAdded(collectInputFiles(shared));
+      })
+      .catch(err => console.error('Could not read shared files', err));
+  }, [handleFilesAdded]);
 
   const handleRemoveFile = useCallback((id: string) => {
     setFiles(prev => {
@@ -45,89 +238,345 @@ const App: React.FC = () => {
       }
       return prev.filter(f => f.id !== id);
     });
+    setMergedOutputs([]);
+  }, []);
+
+  const handleRemoveFiles = useCallback((ids: string[]) => {
+    const removed = new Set(ids);
+    setFiles(prev => {
+      prev.filter(f => removed.has(f.id)).forEach(f => URL.revokeObjectURL(f.previewUrl));
+      return prev.filter(f => !removed.has(f.id));
+    });
+    setMergedOutputs([]);
+  }, []);
+
+  const handleKeepDuplicate = useCallback((id: string) => {
+    setFiles(prev => prev.map(f => (f.id === id ? { ...f, keepDuplicate: true } : f)));
+  }, []);
+
+  // Page order changed, so any merged documents are out of date
+  const handleReorder = useCallback((fromId: string, toId: string) => {
+    setFiles(prev => moveFile(prev, fromId, toId));
+    setMergedOutputs([]);
+  }, []);
+
+  const handleSort = useCallback((key: SortKey, direction: SortDirection) => {
+    setFiles(prev => sortFiles(prev, key, direction));
+    setMergedOutputs([]);
+  }, []);
+
+  const handleTransformChange = useCallback((id: string, transform: ImageTransform) => {
+    setFiles(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      if (f.status === ConversionStatus.UNSUPPORTED) return { ...f, transform };
+      // The existing PDF no longer matches the image's orientation
+      return { ...f, transform, status: ConversionStatus.IDLE, ...CLEARED_RESULT };
+    }));
+    setMergedOutputs([]);
+  }, []);
+
+  const handleCornersChange = useCallback((id: string, corners: Quad | undefined) => {
+    setFiles(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      // The page is cut from a different part of the photo now
+      return { ...f, corners, status: ConversionStatus.IDLE, ...CLEARED_RESULT };
+    }));
+    setMergedOutputs([]);
+    setEditingScanId(null);
+  }, []);
+
+  const handleFileMetadataChange = useCallback((id: string, metadata: Partial<DocumentMetadata>) => {
+    setFiles(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      if (f.status === ConversionStatus.UNSUPPORTED) return { ...f, metadata };
+      // The metadata is baked into the PDF
+      return { ...f, metadata, status: ConversionStatus.IDLE, ...CLEARED_RESULT };
+    }));
+    setMergedOutputs([]);
   }, []);
 
   const handleClearAll = useCallback(() => {
     files.forEach(f => URL.revokeObjectURL(f.previewUrl));
     setFiles([]);
-    setStats({
-      total: 0,
-      processed: 0,
-      success: 0,
-      failed: 0,
-      startTime: null,
-      endTime: null,
-    });
+    setMergedOutputs([]);
+    setSkippedFiles([]);
+    setStats(INITIAL_STATS);
   }, [files]);
 
-  const processQueue = useCallback(async () => {
+  // Wipes the saved session as well as the current queue and settings
+  const handlePurgeStorage = useCallback(async () => {
+    files.forEach(f => URL.revokeObjectURL(f.previewUrl));
+    setFiles([]);
+    setMergedOutputs([]);
+    setSkippedFiles([]);
+    setStats(INITIAL_STATS);
+    setOptions(DEFAULT_OPTIONS);
+    try {
+      await purgeSession();
+      persistedRef.current = new Map();
+    } catch (err) {
+      console.error('Failed to purge saved session', err);
+    }
+    refreshStorageUsage();
+  }, [files, refreshStorageUsage]);
+
+  // Results built with the previous settings are stale, so send everything back to IDLE
+  const handleOptionsChange = useCallback((next: ConversionOptions) => {
+    setOptions(next);
+    setMergedOutputs([]);
+    setFiles(prev => prev.map(f =>
+      f.status === ConversionStatus.IDLE || f.status === ConversionStatus.UNSUPPORTED
+        ? f
+        : { ...f, status: ConversionStatus.IDLE, ...CLEARED_RESULT }
+    ));
+  }, []);
+
+  // Presets never hold passwords, so the ones typed this session are kept
+  const handleApplyPreset = useCallback((preset: Preset) => {
+    setPasswordsNeeded(preset.options.security.enabled && !options.security.userPassword && !options.security.ownerPassword);
+    handleOptionsChange({
+      ...preset.options,
+      security: {
+        ...preset.options.security,
+        userPassword: options.security.userPassword,
+        ownerPassword: options.security.ownerPassword,
+      },
+    });
+  }, [handleOptionsChange, options.security]);
+
+  const handleSavePreset = useCallback(async (name: string, presetOptions: ConversionOptions) => {
+    const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase());
+    const preset: Preset = { id: existing?.id ?? crypto.randomUUID(), name, options: omitPasswords(presetOptions) };
+    await savePreset(preset);
+    setPresets(prev => sortPresets([...prev.filter(p => p.id !== preset.id), preset]));
+    return preset;
+  }, [presets]);
+
+  const handleDeletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+    deletePreset(id).catch(err => console.error('Failed to delete preset', err));
+  }, []);
+
+  // Runs the given files (or every runnable one) through the worker pool
+  const processQueue = useCallback(async (ids?: string[]) => {
+    const queue = selectQueue(files, options, ids);
+    if (queue.length === 0) return;
+
+    const queuedIds = new Set(queue.map(f => f.id));
     setIsProcessing(true);
-    setStats(prev => ({
-      ...prev,
-      total: files.length,
-      processed: 0,
-      startTime: Date.now(),
-    }));
+    setIsPaused(false);
+    setStats(startRun(queue.length));
+    if (options.output.mode === 'merge') setMergedOutputs([]);
 
-    // Mark all IDLE as QUEUED
-    setFiles(prev => prev.map(f => 
-      f.status === ConversionStatus.IDLE ? { ...f, status: ConversionStatus.QUEUED } : f
+    setFiles(prev => prev.map(f =>
+      queuedIds.has(f.id)
+        ? { ...f, status: ConversionStatus.QUEUED, ...CLEARED_RESULT }
+        : f
     ));
 
-    // Process in batches to prevent UI blocking
-    const BATCH_SIZE = 5; // Parallel processing limit
-    const queue = files.filter(f => f.status === ConversionStatus.IDLE || f.status === ConversionStatus.ERROR);
-    
-    // We need a way to update the specific file in the array safely
-    const updateFileStatus = (id: string, updates: Partial<FileData>) => {
-      setFiles(currentFiles => 
+    // Idle workers pull the next job from the pool's shared queue, so there are no fixed batches
+    const pool = createWorkerPool();
+    poolRef.current = pool;
+    const folder = options.export.saveToFolder ? outputFolderRef.current : null;
+
+    const { mergedOutputs: outputs, saveFailures } = await runQueue({
+      files,
+      queue,
+      options,
+      pool,
+      recognize: recognizeImage,
+      createSignal: key => {
+        const controller = new AbortController();
+        controllersRef.current.set(key, controller);
+        return controller.signal;
+      },
+      saveToFolder: folder?.save,
+      // We need a way to update the specific file in the array safely
+      onUpdate: (id, updates) => setFiles(currentFiles =>
         currentFiles.map(f => f.id === id ? { ...f, ...updates } : f)
-      );
-    };
+      ),
+      onOutcome: outcome => setStats(prev => recordOutcome(prev, outcome)),
+    });
+    if (outputs) setMergedOutputs(outputs);
 
-    // Helper to process a single file
-    const processFile = async (file: FileData) => {
-      updateFileStatus(file.id, { status: ConversionStatus.PROCESSING });
-      try {
-        const pdfBlob = await convertImageToPDF(file);
-        updateFileStatus(file.id, { status: ConversionStatus.COMPLETED, pdfBlob });
-        setStats(prev => ({ ...prev, processed: prev.processed + 1, success: prev.success + 1 }));
-      } catch (err) {
-        updateFileStatus(file.id, { status: ConversionStatus.ERROR, error: "Failed to convert" });
-        setStats(prev => ({ ...prev, processed: prev.processed + 1, failed: prev.failed + 1 }));
+    pool.terminate();
+    poolRef.current = null;
+    // The OCR workers hold the language models in memory; they load again quickly from local assets
+    if (options.ocr.enabled) terminateOcr();
+    controllersRef.current.clear();
+    setStats(prev => finishRun(prev));
+    setIsPaused(false);
+    setIsProcessing(false);
+    if (folder && saveFailures > 0) {
+      alert(`${saveFailures} ${saveFailures === 1 ? 'PDF' : 'PDFs'} could not be saved to "${folder.name}". They can still be downloaded.`);
+    }
+  }, [files, options]);
+
+  // Asks for the folder to save PDFs into; false if the user backed out
+  const chooseOutputFolder = useCallback(async (): Promise<boolean> => {
+    try {
+      const folder = openOutputFolder(await pickFolder());
+      outputFolderRef.current = folder;
+      setOutputFolderName(folder.name);
+      return true;
+    } catch (err) {
+      if (!isPickerDismissed(err)) {
+        console.error('Could not open folder', err);
+        alert('Could not open that folder for saving.');
       }
-    };
+      return false;
+    }
+  }, []);
 
-    // Execution loop
-    for (let i = 0; i < queue.length; i += BATCH_SIZE) {
-      const batch = queue.slice(i, i + BATCH_SIZE);
-      await Promise.all(batch.map(file => processFile(file)));
-      // Small delay to let UI breathe
-      await new Promise(resolve => setTimeout(resolve, 50));
+  const awaitingPasswords = passwordsNeeded && options.security.enabled
+    && !options.security.userPassword && !options.security.ownerPassword;
+
+  // Saving to a folder needs one picked before the run; the picker must open from the click
+  const startConversion = useCallback(async (ids?: string[]) => {
+    if (awaitingPasswords) {
+      alert('Enter the PDF passwords again under Password Protection before converting.');
+      return;
+    }
+    if (options.export.saveToFolder && canSaveToFolder() && !outputFolderRef.current) {
+      if (!(await chooseOutputFolder())) return;
     }
+    processQueue(ids);
+  }, [awaitingPasswords, options.export.saveToFolder, chooseOutputFolder, processQueue]);
 
-    setStats(prev => ({ ...prev, endTime: Date.now() }));
-    setIsProcessing(false);
-  }, [files]);
+  const handlePauseToggle = useCallback(() => {
+    const pool = poolRef.current;
+    if (!pool) return;
+    if (isPaused) {
+      pool.resume();
+    } else {
+      pool.pause();
+    }
+    setIsPaused(!isPaused);
+  }, [isPaused]);
+
+  const handleCancelRun = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  const handleCancelFile = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+  }, []);
+
+  const handleRetryFile = useCallback((id: string) => {
+    startConversion([id]);
+  }, [startConversion]);
+
+  // Drops exported PDFs from memory when asked to; `saved` maps file ids to where they went
+  const releaseExported = (saved: Map<string, string>, isMerge: boolean) => {
+    if (!options.export.releaseSaved) return;
+    if (isMerge) {
+      setMergedOutputs([]);
+      return;
+    }
+    setFiles(prev => prev.map(f => {
+      const savedTo = saved.get(f.id);
+      return savedTo ? { ...f, savedTo, pdfBlob: undefined } : f;
+    }));
+  };
 
   const handleDownloadZip = async () => {
-    const completedFiles = files.filter(f => f.status === ConversionStatus.COMPLETED && f.pdfBlob);
-    if (completedFiles.length === 0) return;
+    const isMerge = options.output.mode === 'merge';
+    const exported = files.filter(f => f.status === ConversionStatus.COMPLETED && f.pdfBlob);
+    const entries = isMerge
+      ? getMergedEntries(mergedOutputs, files, options.export)
+      : getFileEntries(exported, options.export);
+    if (entries.length === 0) return;
+    // Entries are in the same order as what they were made from
+    const fileIds = new Map(entries.map((entry, i) => [entry, isMerge ? mergedOutputs[i].id : exported[i].id]));
 
+    // A single merged document is downloaded as-is, several are bundled
+    if (isMerge && entries.length === 1) {
+      saveAs(entries[0].blob, entries[0].path.split('/').pop());
+      releaseExported(new Map(), isMerge);
+      return;
+    }
+
+    const parts = splitEntries(entries, getZipPartSizeMb(options.export.splitSizeMb));
+    const zipNames = parts.map((_, i) => getZipFileName(options.export, i + 1, parts.length));
+    let destination: ZipDestination;
     try {
-      const zipBlob = await createZipFromFiles(completedFiles);
-      saveAs(zipBlob, "converted_pdfs.zip");
+      destination = await chooseZipDestination(zipNames, () => new Promise<void>((resolve, reject) => {
+        zipDownloadRef.current = { resolve, reject };
+        setZipProgress(prev => prev && { ...prev, waiting: true });
+      }));
     } catch (error) {
-      console.error("Error creating zip", error);
-      alert("Failed to create ZIP file.");
+      if (!isPickerDismissed(error)) {
+        console.error("Error creating zip", error);
+        alert("Failed to create ZIP file.");
+      }
+      return;
     }
+
+    const saved = new Map<string, string>();
+    let current = 0;
+    try {
+      for (const [i, part] of parts.entries()) {
+        current = i;
+        const progress = { part: i + 1, parts: parts.length };
+        setZipProgress({ ...progress, percent: 0 });
+        await writeZip(part, await destination.open(zipNames[i]), percent => setZipProgress({ ...progress, percent }));
+        part.forEach(entry => saved.set(fileIds.get(entry)!, `${zipNames[i]}/${entry.path}`));
+      }
+    } catch (error) {
+      // Stopping before a part's download isn't a failure
+      if (!isPickerDismissed(error)) {
+        console.error("Error creating zip", error);
+        alert(parts.length > 1 ? `Failed to create ${zipNames[current]}.` : "Failed to create ZIP file.");
+      }
+    } finally {
+      zipDownloadRef.current = null;
+      setZipProgress(null);
+    }
+    // Parts written before a failure are saved, so their PDFs can go; merged documents only go all at once
+    if (!isMerge || saved.size === entries.length) releaseExported(saved, isMerge);
+  };
+
+  // The click a downloaded ZIP part waits for, or stopping there
+  const settleZipDownload = (download: boolean) => {
+    const pending = zipDownloadRef.current;
+    zipDownloadRef.current = null;
+    setZipProgress(prev => prev && { ...prev, waiting: false });
+    if (download) pending?.resolve();
+    else pending?.reject(new DOMException('ZIP export stopped', 'AbortError'));
   };
 
   // Derived state
   const hasFiles = files.length > 0;
-  const completedCount = files.filter(f => f.status === ConversionStatus.COMPLETED).length;
-  const progressPercent = stats.total > 0 ? (stats.processed / stats.total) * 100 : 0;
-  const isAllCompleted = hasFiles && completedCount === files.length;
+  const editingScan = files.find(f => f.id === editingScanId);
+  const duplicateGroups = useMemo(() => findDuplicateGroups(files), [files]);
+  // Copy id -> what it duplicates, for the badges in the list
+  const duplicates = useMemo(() => {
+    const map = new Map<string, { originalName: string; exact: boolean }>();
+    duplicateGroups.forEach(group => group.copies.forEach(copy => {
+      map.set(copy.file.id, { originalName: group.original.file.name, exact: copy.exact });
+    }));
+    return map;
+  }, [duplicateGroups]);
+  const convertibleCount = files.filter(f => f.status !== ConversionStatus.UNSUPPORTED).length;
+  // Completed PDFs still in memory; ones released after saving can't be downloaded again
+  const downloadableCount = files.filter(f => f.status === ConversionStatus.COMPLETED && f.pdfBlob).length;
+  const progressPercent = getProgressPercent(stats);
+  const runnableCount = files.filter(f => RUNNABLE_STATUSES.includes(f.status)).length;
+  const isMergeMode = options.output.mode === 'merge';
+  const canDownload = isMergeMode ? mergedOutputs.length > 0 : downloadableCount > 0;
+  const canConvert = isMergeMode ? convertibleCount > 0 && (runnableCount > 0 || !canDownload) : runnableCount > 0;
+  // Original vs. output size of what has been converted so far
+  const convertedFiles = files.filter(f => f.outputSize !== undefined);
+  const convertedBytes = convertedFiles.reduce((acc, f) => acc + f.file.size, 0);
+  const outputBytes = isMergeMode
+    ? mergedOutputs.reduce((acc, o) => acc + o.pdfBlob.size, 0)
+    : convertedFiles.reduce((acc, f) => acc + (f.outputSize ?? 0), 0);
+  const encryptedCount = isMergeMode
+    ? mergedOutputs.filter(o => o.encrypted).length
+    : files.filter(f => f.pdfBlob && f.encrypted).length;
+  const downloadLabel = isMergeMode
+    ? mergedOutputs.length === 1 ? 'Download PDF' : `Download ZIP (${mergedOutputs.length} PDFs)`
+    : `Download ZIP (${downloadableCount})`;
 
   return (
     <div className="flex h-screen w-full bg-slate-950 text-slate-200 overflow-hidden">
@@ -143,7 +592,7 @@ const App: React.FC = () => {
             </h1>
           </div>
           <p className="text-xs text-slate-500 mt-2">
-            Convert 100+ JPEGs to PDF instantly. Local & Lossless.
+            Convert 100+ images to PDF instantly. Local & Lossless.
           </p>
         </div>
 
@@ -151,6 +600,69 @@ const App: React.FC = () => {
           <div className="space-y-6">
             <DropZone onFilesAdded={handleFilesAdded} disabled={isProcessing} />
 
+            {skippedFiles.length > 0 && (
+              <ImportSummary skipped={skippedFiles} onDismiss={() => setSkippedFiles([])} />
+            )}
+
+            <OutputSettings
+              options={options.output}
+              onChange={output => handleOptionsChange({ ...options, output })}
+              disabled={isProcessing}
+            />
+
+            <LayoutSettings
+              options={options.layout}
+              onChange={layout => handleOptionsChange({ ...options, layout })}
+              disabled={isProcessing}
+            />
+
+            <InputSettings
+              options={options.input}
+              onChange={input => handleOptionsChange({ ...options, input })}
+              disabled={isProcessing}
+            />
+
+            <CleanupSettings
+              options={options.cleanup}
+              onChange={cleanup => handleOptionsChange({ ...options, cleanup })}
+              disabled={isProcessing}
+            />
+
+            <OcrSettings
+              options={options.ocr}
+              onChange={ocr => handleOptionsChange({ ...options, ocr })}
+              disabled={isProcessing}
+            />
+
+            <StampSettings
+              options={options.stamp}
+              onChange={stamp => handleOptionsChange({ ...options, stamp })}
+              disabled={isProcessing}
+            />
+
+            <SecuritySettings
+              options={options.security}
+              onChange={security => handleOptionsChange({ ...options, security })}
+              passwordsNeeded={awaitingPasswords}
+              onSkipPasswords={() => setPasswordsNeeded(false)}
+              disabled={isProcessing}
+            />
+
+            <OptimizeSettings
+              options={options.optimize}
+              onChange={optimize => handleOptionsChange({ ...options, optimize })}
+              disabled={isProcessing}
+            />
+
+            {/* Naming only affects the download, so converted PDFs stay valid */}
+            <ExportSettings
+              options={options.export}
+              onChange={exportOptions => setOptions(prev => ({ ...prev, export: exportOptions }))}
+              folderName={outputFolderName}
+              onChooseFolder={chooseOutputFolder}
+              disabled={isProcessing || zipProgress !== null}
+            />
+
             {/* Stats Card */}
             {hasFiles && (
               <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
@@ -164,8 +676,19 @@ const App: React.FC = () => {
                     {(files.reduce((acc, f) => acc + f.file.size, 0) / (1024 * 1024)).toFixed(2)} MB
                   </span>
                 </div>
+                {outputBytes > 0 && convertedBytes > 0 && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-slate-400">Output Size</span>
+                    <span className="font-mono font-medium" title={`${formatBytes(convertedBytes)} of originals converted`}>
+                      {formatBytes(outputBytes)}
+                      <span className={`ml-1 text-xs ${outputBytes < convertedBytes ? 'text-green-400' : 'text-slate-500'}`}>
+                        ({Math.round((outputBytes / convertedBytes - 1) * 100)}%)
+                      </span>
+                    </span>
+                  </div>
+                )}
                 
-                {stats.processed > 0 && (
+                {stats.total > 0 && (isProcessing || stats.processed > 0) && (
                    <div className="pt-2 border-t border-slate-800 space-y-2">
                      <div className="flex justify-between items-end mb-1">
                        <span className="text-xs font-semibold text-indigo-400 uppercase">Progress</span>
@@ -179,45 +702,133 @@ const App: React.FC = () => {
                      </div>
                      <div className="flex justify-between text-xs text-slate-500 pt-1">
                        <span className="text-green-400">{stats.success} Success</span>
+                       {stats.cancelled > 0 && <span className="text-amber-400">{stats.cancelled} Cancelled</span>}
                        <span className="text-red-400">{stats.failed} Failed</span>
                      </div>
+                     {!isProcessing && lastReport && <RunSummary report={lastReport} />}
                    </div>
                 )}
               </div>
             )}
+
+            <MetadataSettings
+              options={options.metadata}
+              onChange={metadata => handleOptionsChange({ ...options, metadata })}
+              files={files}
+              onFileMetadataChange={handleFileMetadataChange}
+              isMergeMode={isMergeMode}
+              disabled={isProcessing}
+            />
+
+            {storageUsage && (
+              <StorageStatus usage={storageUsage} onPurge={handlePurgeStorage} disabled={isProcessing} />
+            )}
           </div>
         </div>
 
         {/* Action Buttons Footer */}
         <div className="p-6 border-t border-slate-800 bg-slate-900 space-y-3">
-          {hasFiles && !isProcessing && !isAllCompleted && (
-            <button
-              onClick={processQueue}
-              className="w-full py-3 px-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-semibold shadow-lg shadow-indigo-500/20 flex items-center justify-center space-x-2 transition-all active:scale-[0.98]"
-            >
-              <Zap size={20} />
-              <span>Convert All Images</span>
-            </button>
+          <PresetSettings
+            presets={presets}
+            options={options}
+            onApply={handleApplyPreset}
+            onSave={handleSavePreset}
+            onDelete={handleDeletePreset}
+            disabled={isProcessing}
+          />
+
+          {canConvert && !isProcessing && (
+            <>
+              <button
+                onClick={() => startConversion()}
+                disabled={awaitingPasswords}
+                className="w-full py-3 px-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-semibold shadow-lg shadow-indigo-500/20 flex items-center justify-center space-x-2 transition-all active:scale-[0.98] disabled:opacity-50 disabled:pointer-events-none"
+              >
+                <Zap size={20} />
+                <span>Convert All Images</span>
+              </button>
+              {awaitingPasswords && (
+                <p className="text-xs text-amber-400 text-center">Enter the PDF passwords again under Password Protection to convert.</p>
+              )}
+            </>
           )}
 
           {isProcessing && (
-             <button
-              disabled
-              className="w-full py-3 px-4 bg-slate-800 text-slate-400 rounded-xl font-medium flex items-center justify-center space-x-2 cursor-wait"
-            >
-              <RefreshCw size={20} className="animate-spin" />
-              <span>Processing...</span>
-            </button>
+            <>
+              <div className="w-full py-3 px-4 bg-slate-800 text-slate-400 rounded-xl font-medium flex items-center justify-center space-x-2">
+                {isPaused ? <Pause size={20} /> : <RefreshCw size={20} className="animate-spin" />}
+                <span>{isPaused ? 'Paused' : 'Processing...'}</span>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={handlePauseToggle}
+                  className="flex-1 py-2 px-4 bg-transparent border border-slate-700 hover:border-indigo-500/50 hover:bg-indigo-500/10 text-slate-400 hover:text-indigo-300 rounded-xl text-sm font-medium transition-colors flex items-center justify-center space-x-2"
+                >
+                  {isPaused ? <Play size={16} /> : <Pause size={16} />}
+                  <span>{isPaused ? 'Resume' : 'Pause'}</span>
+                </button>
+                <button
+                  onClick={handleCancelRun}
+                  className="flex-1 py-2 px-4 bg-transparent border border-slate-700 hover:border-red-500/50 hover:bg-red-500/10 text-slate-400 hover:text-red-400 rounded-xl text-sm font-medium transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Square size={16} />
+                  <span>Cancel</span>
+                </button>
+              </div>
+            </>
           )}
 
-          {completedCount > 0 && !isProcessing && (
-            <button
-              onClick={handleDownloadZip}
-              className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-semibold shadow-lg shadow-emerald-500/20 flex items-center justify-center space-x-2 transition-all active:scale-[0.98]"
-            >
-              <Download size={20} />
-              <span>Download ZIP ({completedCount})</span>
-            </button>
+          {canDownload && !isProcessing && (
+            <>
+              {zipProgress?.waiting ? (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => settleZipDownload(true)}
+                    className="flex-1 py-3 px-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-semibold shadow-lg shadow-emerald-500/20 flex items-center justify-center space-x-2 transition-all active:scale-[0.98]"
+                  >
+                    <Download size={20} />
+                    <span>Download part {zipProgress.part} of {zipProgress.parts}</span>
+                  </button>
+                  <button
+                    onClick={() => settleZipDownload(false)}
+                    className="py-3 px-4 bg-transparent border border-slate-700 hover:border-red-500/50 hover:bg-red-500/10 text-slate-400 hover:text-red-400 rounded-xl text-sm font-medium transition-colors flex items-center justify-center space-x-2"
+                    title="Skip the remaining parts"
+                  >
+                    <Square size={16} />
+                    <span>Stop</span>
+                  </button>
+                </div>
+              ) : zipProgress ? (
+                <div className="w-full py-3 px-4 bg-slate-800 rounded-xl space-y-2">
+                  <div className="flex justify-between text-xs text-slate-400">
+                    <span>
+                      Writing ZIP{zipProgress.parts > 1 && ` ${zipProgress.part} of ${zipProgress.parts}`}...
+                    </span>
+                    <span>{Math.round(zipProgress.percent)}%</span>
+                  </div>
+                  <div className="h-1.5 w-full bg-slate-900 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${zipProgress.percent}%` }} />
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={handleDownloadZip}
+                  className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-semibold shadow-lg shadow-emerald-500/20 flex items-center justify-center space-x-2 transition-all active:scale-[0.98]"
+                >
+                  <Download size={20} />
+                  <span>{downloadLabel}</span>
+                </button>
+              )}
+              {encryptedCount > 0 && (
+                <p className="flex items-center justify-center space-x-1.5 text-xs text-amber-400">
+                  <Lock size={12} />
+                  <span>
+                    {encryptedCount === (isMergeMode ? mergedOutputs.length : downloadableCount) ? 'All' : encryptedCount}{' '}
+                    PDFs in this download are password-protected
+                  </span>
+                </p>
+              )}
+            </>
           )}
 
           {hasFiles && !isProcessing && (
@@ -241,12 +852,28 @@ const App: React.FC = () => {
                 <h2 className="text-lg font-medium text-slate-200">Files</h2>
                 {!hasFiles && <span className="text-sm text-slate-500">Waiting for files...</span>}
              </div>
+
+             {duplicateGroups.length > 0 && (
+               <DuplicateReview
+                 groups={duplicateGroups}
+                 onRemove={handleRemoveFiles}
+                 onKeep={handleKeepDuplicate}
+                 disabled={isProcessing}
+               />
+             )}
              
              <div className="flex-1 overflow-hidden p-2">
                 {hasFiles ? (
                   <FileList 
                     files={files} 
                     onRemove={handleRemoveFile} 
+                    onRetry={handleRetryFile}
+                    onReorder={handleReorder}
+                    onSort={handleSort}
+                    onTransformChange={handleTransformChange}
+                    onEditScan={setEditingScanId}
+                    duplicates={duplicates}
+                    onCancel={isMergeMode ? undefined : handleCancelFile}
                     isProcessing={isProcessing} 
                   />
                 ) : (
@@ -261,6 +888,15 @@ const App: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {editingScan && (
+        <ScanEditor
+          file={editingScan}
+          options={options.cleanup}
+          onSave={corners => handleCornersChange(editingScan.id, corners)}
+          onClose={() => setEditingScanId(null)}
+        />
+      )}
     </div>
   );
 };
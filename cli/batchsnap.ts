@@ -0,0 +1,237 @@
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DEFAULT_OPTIONS } from '../constants';
+import { convertBatch, BatchInput } from '../utils/pipeline';
+import { isHiddenName } from '../utils/folderImport';
+import { detectImageFormat } from '../utils/imageFormat';
+import { parsePresetFile } from '../utils/presets';
+import { RasterBackend, setRasterBackend } from '../utils/raster';
+import { parseCommandLine, toOptions, UsageError } from './options';
+
+const USAGE = `Usage: batchsnap convert <file or folder>... -o <dir> [options]
+
+Converts JPEG, PNG, WebP, GIF and BMP images to PDF with the same options and naming
+rules as the app. Folders are read recursively, in natural name order. Defaults below are
+the app's own, used when neither a flag nor a preset sets an option.
+
+Output
+  -o, --out <dir>           Folder the PDFs are written to (required)
+      --preset <file>       Start from a preset exported from the app; the flags below
+                            override its settings
+      --merge               One document for all images instead of a PDF each
+      --group <mode>        How --merge splits documents: all, every-n, folder (all)
+      --group-size <n>      Pages per document with --group every-n (50)
+      --name <template>     File name template ({name}); tokens: {name} {index} {index:000}
+                            {date} {width} {height}
+      --folder <name>       Subfolder of the output folder to write into (none)
+      --preserve-folders    Recreate the input folder structure
+
+Page
+      --page <size>         image, a4, letter, legal (image)
+      --orientation <o>     auto, portrait, landscape (auto)
+      --margin <mm>         Page margin (10)
+      --placement <p>       fit, fill, center, actual (fit)
+      --dpi <n>             Resolution for --placement actual (300)
+      --image-dpi           With --page image or --placement actual: size pages from the
+                            resolution stored in the image
+      --ignore-image-dpi    Don't, even when the preset does
+
+Images
+      --raster <format>     How WebP, GIF and BMP are embedded: png, jpeg (png)
+      --optimize            Downscale and re-encode images
+      --max-edge <px>       With --optimize: longest side, 0 for no limit (3000)
+      --target-dpi <n>      With --optimize: placed resolution, 0 for no limit (150)
+      --quality <0.4-1>     With --optimize: JPEG quality (0.8)
+      --color <mode>        With --optimize: color, grayscale, bw (color)
+      --target-size <mb>    With --optimize: size budget for the whole batch
+      --cleanup             Flatten, straighten and trim photographed documents
+      --enhance <mode>      With --cleanup: none, contrast, whiten (none)
+
+Document
+      --title <template>    Also --author, --subject, --keywords; same tokens as --name
+      --no-bookmarks        Leave out the bookmark per image in merged documents
+      --page-labels <s>     none, D, r, R, a, A (none)
+      --stamp <text>        Text stamped on every page; tokens: {page} {total} {filename} {date}
+      --password <pw>       Password required to open the PDFs
+      --owner-password <pw> Password that lifts the restrictions
+      --deny <list>         Comma-separated permissions to withhold: print, copy, modify
+                            Protection, from these or a preset, needs one of the passwords
+
+  -h, --help                Show this help
+
+Exits with 1 if any image couldn't be converted, after listing each one and why. Images
+converted without --cleanup, because it failed on them, are listed too but don't fail the run.`;
+
+// Folders bring along whatever else sits next to the scans; like a folder drop in the app,
+// those are skipped rather than reported as failures
+const IMAGE_EXTENSIONS = new Set(['jpg', 'jpeg', 'jfif', 'png', 'webp', 'gif', 'bmp', 'heic', 'heif', 'avif', 'tif', 'tiff']);
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+interface Collected {
+  inputs: BatchInput[];
+  // Files in folders that aren't images
+  skipped: string[];
+}
+
+const isImageName = (name: string) => IMAGE_EXTENSIONS.has(path.extname(name).slice(1).toLowerCase());
+
+/**
+ * Reads the given files and folders. Paths inside a folder are relative to the folder's parent,
+ * like a folder dropped into the app ("scans/batch1/page_01.jpg"), so folder grouping and
+ * preserved folders come out the same.
+ */
+const collectInputs = async (targets: string[]): Promise<Collected> => {
+  const collected: Collected = { inputs: [], skipped: [] };
+
+  const addFile = async (filePath: string, relativePath: string, fromFolder: boolean) => {
+    const bytes = new Uint8Array(await readFile(filePath));
+    if (fromFolder && !isImageName(filePath) && !detectImageFormat(bytes).format) {
+      collected.skipped.push(relativePath);
+      return;
+    }
+    const { mtimeMs } = await stat(filePath);
+    collected.inputs.push({ name: path.basename(filePath), relativePath, bytes, lastModified: Math.round(mtimeMs) });
+  };
+
+  const walk = async (directory: string, relativePath: string) => {
+    const entries = (await readdir(directory, { withFileTypes: true }))
+      .filter(entry => !isHiddenName(entry.name))
+      .sort((a, b) => collator.compare(a.name, b.name));
+    for (const entry of entries) {
+      const childPath = path.join(directory, entry.name);
+      const childRelative = `${relativePath}/${entry.name}`;
+      if (entry.isDirectory()) {
+        await walk(childPath, childRelative);
+      } else if (entry.isFile()) {
+        await addFile(childPath, childRelative, true);
+      }
+    }
+  };
+
+  for (const target of targets) {
+    const info = await stat(target).catch(() => null);
+    if (!info) {
+      throw new UsageError(`No such file or folder: ${target}`);
+    }
+    if (info.isDirectory()) {
+      await walk(target, path.basename(path.resolve(target)));
+    } else {
+      await addFile(target, path.basename(target), false);
+    }
+  }
+  return collected;
+};
+
+// @napi-rs/canvas is an optional dependency, so app-only installs may not have it
+const loadRasterBackend = async (): Promise<RasterBackend | null> => {
+  try {
+    return (await import('./nodeRaster')).nodeRasterBackend;
+  } catch {
+    return null;
+  }
+};
+
+const run = async (args: string[]): Promise<number> => {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(args);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values: flags, positionals } = parsed;
+  if (flags.help || positionals.length === 0) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const [command, ...targets] = positionals;
+  if (command !== 'convert') {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+  if (targets.length === 0) {
+    throw new UsageError('No input files or folders given');
+  }
+  if (!flags.out) {
+    throw new UsageError('No output folder given (-o <dir>)');
+  }
+
+  let base = DEFAULT_OPTIONS;
+  if (flags.preset) {
+    const json = await readFile(flags.preset, 'utf8').catch(() => {
+      throw new UsageError(`Could not read preset: ${flags.preset}`);
+    });
+    try {
+      base = parsePresetFile(json).options;
+    } catch (error) {
+      throw new UsageError(`${flags.preset}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  const options = toOptions(flags, base);
+  if (options.ocr.enabled) {
+    console.error('OCR only runs in the app; the PDFs get no text layer');
+  }
+  const backend = await loadRasterBackend();
+  if (!backend) {
+    console.error('batchsnap needs @napi-rs/canvas; install it with "npm install @napi-rs/canvas"');
+    return 1;
+  }
+  setRasterBackend(backend);
+
+  const { inputs, skipped } = await collectInputs(targets);
+  if (skipped.length > 0) {
+    console.error(`Skipped ${skipped.length} ${skipped.length === 1 ? 'file that isn\'t an image' : 'files that aren\'t images'}`);
+  }
+  if (inputs.length === 0) {
+    console.error('No images found');
+    return 1;
+  }
+
+  const result = await convertBatch(inputs, options, {
+    onFile: (index, error) => {
+      const input = inputs[index];
+      console.error(`${error === undefined ? 'ok  ' : 'FAIL'} ${input.relativePath || input.name}`);
+    },
+  });
+
+  for (const document of result.documents) {
+    const target = path.join(flags.out, ...document.path.split('/'));
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, new Uint8Array(await document.pdfBlob.arrayBuffer()));
+  }
+
+  const documents = result.documents.length;
+  console.log(
+    `Converted ${result.converted} of ${inputs.length} ${inputs.length === 1 ? 'image' : 'images'} ` +
+    `into ${documents} ${documents === 1 ? 'PDF' : 'PDFs'} in ${flags.out}`
+  );
+  if (result.warnings.length > 0) {
+    const count = result.warnings.length;
+    console.error(`\n${count} ${count === 1 ? 'image was' : 'images were'} converted without scan cleanup:`);
+    result.warnings.forEach(warning => {
+      console.error(`  ${warning.name}${warning.detail ? `: ${warning.detail}` : ''}`);
+    });
+  }
+  if (result.failures.length === 0) return 0;
+
+  console.error(`\n${result.failures.length} ${result.failures.length === 1 ? 'image' : 'images'} failed:`);
+  result.failures.forEach(failure => {
+    const detail = failure.detail && failure.detail !== failure.error ? ` (${failure.detail})` : '';
+    console.error(`  ${failure.name}: ${failure.error}${detail}`);
+  });
+  return 1;
+};
+
+run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    if (error instanceof UsageError) {
+      console.error(`batchsnap: ${error.message}\nRun "batchsnap --help" for usage.`);
+      process.exitCode = 2;
+    } else {
+      console.error(error);
+      process.exitCode = 1;
+    }
+  });
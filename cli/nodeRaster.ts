@@ -0,0 +1,38 @@
+import { Canvas, createCanvas, Image, loadImage } from '@napi-rs/canvas';
+import { withoutOrientation } from '../utils/jpegHeader';
+import { RasterBackend } from '../utils/raster';
+
+// @napi-rs/canvas implements the parts of OffscreenCanvas the pipeline uses (2D context, image data,
+// drawing canvases and images), but ships its own types, hence the casts.
+
+const DEFAULT_JPEG_QUALITY = 0.92;
+
+export const nodeRasterBackend: RasterBackend = {
+  createCanvas: (width, height) => createCanvas(width, height) as unknown as OffscreenCanvas,
+
+  decode: async (image, options) => {
+    let bytes = new Uint8Array(await image.arrayBuffer());
+    // The decoder always applies EXIF Orientation, so the tag is cleared when the stored pixels are wanted
+    if (options?.imageOrientation === 'none') {
+      bytes = withoutOrientation(bytes);
+    }
+    let decoded: Image | Canvas = await loadImage(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length));
+    if (options?.resizeWidth || options?.resizeHeight) {
+      const width = options.resizeWidth ?? Math.round(decoded.width * options.resizeHeight! / decoded.height);
+      const height = options.resizeHeight ?? Math.round(decoded.height * options.resizeWidth! / decoded.width);
+      const resized = createCanvas(width, height);
+      resized.getContext('2d').drawImage(decoded, 0, 0, width, height);
+      decoded = resized;
+    }
+    // Released by the garbage collector; callers still close it like an ImageBitmap
+    return Object.assign(decoded, { close: () => undefined }) as unknown as ImageBitmap;
+  },
+
+  encode: async (canvas, options) => {
+    const target = canvas as unknown as Canvas;
+    const data = options.type === 'image/jpeg'
+      ? await target.encode('jpeg', Math.round((options.quality ?? DEFAULT_JPEG_QUALITY) * 100))
+      : await target.encode('png');
+    return new Blob([data], { type: options.type === 'image/jpeg' ? 'image/jpeg' : 'image/png' });
+  },
+};
@@ -0,0 +1,153 @@
+import { parseArgs } from 'node:util';
+import {
+  ColorMode, ConversionOptions, EnhanceMode, ImagePlacement, MergeGrouping, PageLabelStyle, PageOrientation, PageSize,
+  PdfPermission, RasterStrategy,
+} from '../types';
+import { MIN_OPTIMIZE_QUALITY } from '../constants';
+
+// The batchsnap command line and how its flags map onto the app's options.
+
+// Wrong or missing arguments; reported with a pointer to --help and exit code 2
+export class UsageError extends Error {}
+
+const choice = <T extends string>(flag: string, value: string | undefined, allowed: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(`--${flag} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+const number = (flag: string, value: string | undefined, min: number, max: number, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new UsageError(`--${flag} must be a number from ${min} to ${max}`);
+  }
+  return parsed;
+};
+
+export const parseCommandLine = (args: string[]) => parseArgs({
+  args,
+  allowPositionals: true,
+  options: {
+    out: { type: 'string', short: 'o' },
+    preset: { type: 'string' },
+    merge: { type: 'boolean' },
+    group: { type: 'string' },
+    'group-size': { type: 'string' },
+    name: { type: 'string' },
+    folder: { type: 'string' },
+    'preserve-folders': { type: 'boolean' },
+    page: { type: 'string' },
+    orientation: { type: 'string' },
+    margin: { type: 'string' },
+    placement: { type: 'string' },
+    dpi: { type: 'string' },
+    'image-dpi': { type: 'boolean' },
+    'ignore-image-dpi': { type: 'boolean' },
+    raster: { type: 'string' },
+    optimize: { type: 'boolean' },
+    'max-edge': { type: 'string' },
+    'target-dpi': { type: 'string' },
+    quality: { type: 'string' },
+    color: { type: 'string' },
+    'target-size': { type: 'string' },
+    cleanup: { type: 'boolean' },
+    enhance: { type: 'string' },
+    title: { type: 'string' },
+    author: { type: 'string' },
+    subject: { type: 'string' },
+    keywords: { type: 'string' },
+    'no-bookmarks': { type: 'boolean' },
+    'page-labels': { type: 'string' },
+    stamp: { type: 'string' },
+    password: { type: 'string' },
+    'owner-password': { type: 'string' },
+    deny: { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+export type Flags = ReturnType<typeof parseCommandLine>['values'];
+
+/**
+ * Maps command-line flags onto the app's options, starting from `base` (a preset or the app's
+ * defaults); anything not given keeps its value there.
+ */
+export const toOptions = (flags: Flags, base: ConversionOptions): ConversionOptions => {
+  const denied = flags.deny ? flags.deny.split(',').map(p => p.trim()).filter(Boolean) : [];
+  denied.forEach(p => choice<PdfPermission>('deny', p, ['print', 'copy', 'modify'], 'print'));
+  const protect = flags.password !== undefined || flags['owner-password'] !== undefined || denied.length > 0;
+  const userPassword = flags.password ?? '';
+  const ownerPassword = flags['owner-password'] ?? '';
+  // Presets never hold passwords, and protection without one would leave the PDFs open to anyone
+  if ((protect || base.security.enabled) && !userPassword && !ownerPassword) {
+    throw new UsageError('Password protection needs --password or --owner-password; presets never store passwords');
+  }
+
+  return {
+    ...base,
+    input: {
+      rasterStrategy: choice<RasterStrategy>('raster', flags.raster, ['png', 'jpeg'], base.input.rasterStrategy),
+      jpegQuality: base.input.jpegQuality,
+    },
+    optimize: {
+      enabled: flags.optimize || base.optimize.enabled,
+      maxLongEdge: number('max-edge', flags['max-edge'], 0, 100000, base.optimize.maxLongEdge),
+      targetDpi: number('target-dpi', flags['target-dpi'], 0, 2400, base.optimize.targetDpi),
+      jpegQuality: number('quality', flags.quality, MIN_OPTIMIZE_QUALITY, 1, base.optimize.jpegQuality),
+      colorMode: choice<ColorMode>('color', flags.color, ['color', 'grayscale', 'bw'], base.optimize.colorMode),
+      targetSizeMb: number('target-size', flags['target-size'], 0, 100000, base.optimize.targetSizeMb),
+    },
+    cleanup: {
+      ...base.cleanup,
+      enabled: flags.cleanup || base.cleanup.enabled,
+      enhance: choice<EnhanceMode>('enhance', flags.enhance, ['none', 'contrast', 'whiten'], base.cleanup.enhance),
+    },
+    layout: {
+      pageSize: choice<PageSize>('page', flags.page, ['image', 'a4', 'letter', 'legal'], base.layout.pageSize),
+      orientation: choice<PageOrientation>(
+        'orientation', flags.orientation, ['auto', 'portrait', 'landscape'], base.layout.orientation
+      ),
+      marginMm: number('margin', flags.margin, 0, 100, base.layout.marginMm),
+      placement: choice<ImagePlacement>(
+        'placement', flags.placement, ['fit', 'fill', 'center', 'actual'], base.layout.placement
+      ),
+      dpi: number('dpi', flags.dpi, 1, 2400, base.layout.dpi),
+      useImageDpi: flags['ignore-image-dpi'] ? false : flags['image-dpi'] || base.layout.useImageDpi,
+    },
+    output: {
+      mode: flags.merge ? 'merge' : base.output.mode,
+      grouping: choice<MergeGrouping>('group', flags.group, ['all', 'every-n', 'folder'], base.output.grouping),
+      groupSize: number('group-size', flags['group-size'], 1, 100000, base.output.groupSize),
+    },
+    metadata: {
+      title: flags.title ?? base.metadata.title,
+      author: flags.author ?? base.metadata.author,
+      subject: flags.subject ?? base.metadata.subject,
+      keywords: flags.keywords ?? base.metadata.keywords,
+      bookmarks: flags['no-bookmarks'] ? false : base.metadata.bookmarks,
+      pageLabels: choice<PageLabelStyle>(
+        'page-labels', flags['page-labels'], ['none', 'D', 'r', 'R', 'a', 'A'], base.metadata.pageLabels
+      ),
+      pageLabelPrefix: base.metadata.pageLabelPrefix,
+    },
+    stamp: flags.stamp !== undefined
+      ? { ...base.stamp, enabled: true, kind: 'text', text: flags.stamp }
+      : base.stamp,
+    security: {
+      enabled: protect || base.security.enabled,
+      userPassword,
+      ownerPassword,
+      permissions: base.security.permissions.filter(p => !denied.includes(p)),
+    },
+    export: {
+      ...base.export,
+      nameTemplate: flags.name ?? base.export.nameTemplate,
+      // The output folder already plays the part of the app's ZIP
+      folderName: flags.folder ?? '',
+      preserveFolders: flags['preserve-folders'] || base.export.preserveFolders,
+    },
+  };
+};
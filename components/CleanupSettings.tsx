@@ -0,0 +1,79 @@
+import React from 'react';
+import { CleanupOptions, EnhanceMode } from '../types';
+
+interface CleanupSettingsProps {
+  options: CleanupOptions;
+  onChange: (options: CleanupOptions) => void;
+  disabled?: boolean;
+}
+
+const STEP_LABELS: Record<'perspective' | 'deskew' | 'cropBorders', string> = {
+  perspective: 'Detect page edges and fix perspective',
+  deskew: 'Straighten tilted scans',
+  cropBorders: 'Trim dark borders',
+};
+
+const ENHANCE_LABELS: Record<EnhanceMode, string> = {
+  none: 'None',
+  contrast: 'Boost contrast',
+  whiten: 'Whiten background',
+};
+
+const CleanupSettings: React.FC<CleanupSettingsProps> = ({ options, onChange, disabled }) => {
+  const update = <K extends keyof CleanupOptions>(key: K, value: CleanupOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-xs font-semibold text-indigo-400 uppercase">Scan Cleanup</span>
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={e => update('enabled', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+      </label>
+
+      {options.enabled && (
+        <>
+          <div className="space-y-1.5">
+            {(Object.keys(STEP_LABELS) as (keyof typeof STEP_LABELS)[]).map(step => (
+              <label key={step} className="flex items-center space-x-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options[step]}
+                  onChange={e => update(step, e.target.checked)}
+                  disabled={disabled}
+                  className="accent-indigo-500"
+                />
+                <span className="text-slate-400">{STEP_LABELS[step]}</span>
+              </label>
+            ))}
+          </div>
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Enhance</span>
+            <select
+              value={options.enhance}
+              onChange={e => update('enhance', e.target.value as EnhanceMode)}
+              disabled={disabled}
+              className="w-40 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-200 disabled:opacity-50"
+            >
+              {(Object.keys(ENHANCE_LABELS) as EnhanceMode[]).map(mode => (
+                <option key={mode} value={mode}>{ENHANCE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+
+      <p className="text-xs text-slate-500">
+        For phone photos of paper. Use a file's crop button to preview the result and set its corners by hand.
+      </p>
+    </div>
+  );
+};
+
+export default CleanupSettings;
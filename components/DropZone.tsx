@@ -1,22 +1,25 @@
 import React, { useCallback, useState, useRef } from 'react';
-import { Upload, FileImage, AlertCircle } from 'lucide-react';
+import { Upload, FolderOpen } from 'lucide-react';
+import { collectDroppedFiles, collectInputFiles, ImportBatch, pickDirectory, supportsDirectoryPicker } from '../utils/folderImport';
 
 interface DropZoneProps {
-  onFilesAdded: (files: File[]) => void;
+  onFilesAdded: (batch: ImportBatch) => void;
   disabled?: boolean;
 }
 
+// React doesn't type the non-standard directory attributes
+const DIRECTORY_INPUT_PROPS = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
 const DropZone: React.FC<DropZoneProps> = ({ onFilesAdded, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
-  const isValidFile = (file: File) => {
-    const validTypes = ['image/jpeg', 'image/jpg'];
-    const validExtensions = ['.jpg', '.jpeg'];
-    
-    return validTypes.includes(file.type) || 
-           validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
-  };
+  const emitBatch = useCallback((batch: ImportBatch) => {
+    if (batch.files.length > 0 || batch.skipped.length > 0) {
+      onFilesAdded(batch);
+    }
+  }, [onFilesAdded]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -39,23 +42,34 @@ const DropZone: React.FC<DropZoneProps> = ({ onFilesAdded, disabled }) => {
     
     if (disabled) return;
 
-    const droppedFiles = Array.from(e.dataTransfer.files).filter(isValidFile);
-    
-    if (droppedFiles.length > 0) {
-      onFilesAdded(droppedFiles);
-    }
-  }, [disabled, onFilesAdded]);
+    // No filtering here: the real format is sniffed from the file's bytes,
+    // and files that turn out to be unsupported are listed with a reason.
+    // Dropped folders are walked recursively.
+    collectDroppedFiles(e.dataTransfer)
+      .then(emitBatch)
+      .catch(err => console.error('Failed to read dropped files', err));
+  }, [disabled, emitBatch]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const selectedFiles = Array.from(e.target.files).filter(isValidFile);
-      onFilesAdded(selectedFiles);
+      emitBatch(collectInputFiles(Array.from(e.target.files)));
     }
     // Reset input so same files can be selected again if needed
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+    e.target.value = '';
+  }, [emitBatch]);
+
+  const handleChooseFolder = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (disabled) return;
+
+    if (!supportsDirectoryPicker()) {
+      folderInputRef.current?.click();
+      return;
     }
-  }, [onFilesAdded]);
+    pickDirectory()
+      .then(batch => batch && emitBatch(batch))
+      .catch(err => console.error('Failed to read folder', err));
+  }, [disabled, emitBatch]);
 
   return (
     <div
@@ -76,10 +90,23 @@ const DropZone: React.FC<DropZoneProps> = ({ onFilesAdded, disabled }) => {
         type="file"
         ref={fileInputRef}
         onChange={handleFileInput}
+        // The inputs sit inside the clickable zone; their own clicks must not open the file picker again
+        onClick={e => e.stopPropagation()}
+        className="hidden"
+        multiple
+        accept="image/*"
+        disabled={disabled}
+      />
+      {/* Fallback for browsers without showDirectoryPicker */}
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileInput}
+        onClick={e => e.stopPropagation()}
         className="hidden"
         multiple
-        accept=".jpg, .jpeg, image/jpeg"
         disabled={disabled}
+        {...DIRECTORY_INPUT_PROPS}
       />
       
       <div className="flex flex-col items-center justify-center space-y-4">
@@ -88,12 +115,21 @@ const DropZone: React.FC<DropZoneProps> = ({ onFilesAdded, disabled }) => {
         </div>
         <div className="space-y-1">
           <p className="text-lg font-medium text-slate-200">
-            {isDragging ? 'Drop JPEG files here' : 'Click or Drag JPEGs here'}
+            {isDragging ? 'Drop images or folders here' : 'Click or Drag images or folders here'}
           </p>
           <p className="text-sm text-slate-500">
-            Supports bulk upload (100+ files)
+            JPEG, PNG, WebP, GIF, BMP &middot; bulk upload (100+ files)
           </p>
         </div>
+        <button
+          type="button"
+          onClick={handleChooseFolder}
+          disabled={disabled}
+          className="inline-flex items-center space-x-1.5 px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-medium text-slate-400 hover:text-indigo-300 hover:border-indigo-500/50 disabled:opacity-50 transition-colors"
+        >
+          <FolderOpen size={14} />
+          <span>Choose folder</span>
+        </button>
       </div>
       
       {/* Decorative corners */}
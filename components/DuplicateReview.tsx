@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Copy, XCircle } from 'lucide-react';
+import { FileData } from '../types';
+import { DuplicateGroup } from '../utils/duplicates';
+
+interface DuplicateReviewProps {
+  groups: DuplicateGroup[];
+  onRemove: (ids: string[]) => void;
+  // Marks a flagged copy as wanted, so it's no longer offered for removal
+  onKeep: (id: string) => void;
+  disabled?: boolean;
+}
+
+const Thumbnail: React.FC<{ file: FileData }> = ({ file }) => (
+  <img
+    src={file.previewUrl}
+    alt=""
+    className="w-10 h-10 object-cover rounded border border-slate-800 bg-slate-950 flex-shrink-0"
+  />
+);
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ groups, onRemove, onKeep, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const copyIds: string[] = [];
+  // Only byte-for-byte copies go in one click; a near match is a guess the user has to confirm
+  const exactIds: string[] = [];
+  groups.forEach(g => g.copies.forEach(c => {
+    copyIds.push(c.file.id);
+    if (c.exact) exactIds.push(c.file.id);
+  }));
+  const nearCount = copyIds.length - exactIds.length;
+
+  return (
+    <div className="mx-2 mt-2 bg-amber-500/5 border border-amber-500/20 rounded-lg text-sm">
+      <div className="flex items-center justify-between p-3">
+        <span className="flex items-center text-amber-300">
+          <Copy size={16} className="mr-2" />
+          {copyIds.length} {copyIds.length === 1 ? 'duplicate' : 'duplicates'} of {groups.length}{' '}
+          {groups.length === 1 ? 'image' : 'images'}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => setExpanded(e => !e)}
+            className="px-2 py-1 rounded text-xs text-slate-400 hover:text-slate-200"
+          >
+            {expanded ? 'Hide' : 'Review'}
+          </button>
+          {exactIds.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onRemove(exactIds)}
+              disabled={disabled}
+              className="px-3 py-1 rounded-lg text-xs font-medium bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-50"
+            >
+              Remove identical
+            </button>
+          )}
+        </div>
+      </div>
+
+      {nearCount > 0 && (
+        <p className="px-3 pb-3 -mt-1 text-xs text-slate-500">
+          {nearCount} {nearCount === 1 ? 'image only looks' : 'images only look'} the same; review and remove
+          {nearCount === 1 ? ' it' : ' them'} one by one.
+        </p>
+      )}
+
+      {expanded && (
+        <ul className="px-3 pb-3 space-y-3 max-h-72 overflow-y-auto">
+          {groups.map(group => (
+            <li key={group.original.id} className="space-y-1.5">
+              <div className="flex items-center space-x-3">
+                <Thumbnail file={group.original} />
+                <span className="truncate text-slate-200" title={group.original.file.name}>{group.original.file.name}</span>
+                <span className="text-xs text-slate-500 flex-shrink-0">kept</span>
+              </div>
+              {group.copies.map(({ file, exact }) => (
+                <div key={file.id} className="flex items-center space-x-3 pl-6">
+                  <Thumbnail file={file} />
+                  <span className="truncate text-slate-400" title={file.file.name}>{file.file.name}</span>
+                  <span className={`text-xs flex-shrink-0 ${exact ? 'text-amber-400' : 'text-sky-400'}`}>
+                    {exact ? 'identical' : 'looks the same'}
+                  </span>
+                  <span className="flex-1" />
+                  <button
+                    type="button"
+                    onClick={() => onKeep(file.id)}
+                    disabled={disabled}
+                    className="text-xs text-slate-500 hover:text-slate-200 disabled:opacity-50"
+                  >
+                    Keep
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onRemove([file.id])}
+                    disabled={disabled}
+                    className="text-slate-500 hover:text-red-400 disabled:opacity-50"
+                    title="Remove this copy"
+                  >
+                    <XCircle size={16} />
+                  </button>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { FolderOpen } from 'lucide-react';
+import { ExportOptions } from '../types';
+import { applyNameTemplate, NAME_TOKENS } from '../utils/naming';
+import { canSaveToFolder, IN_MEMORY_ZIP_LIMIT_MB } from '../utils/exportTarget';
+
+interface ExportSettingsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  // Folder PDFs are being saved into this session, if one was picked
+  folderName: string | null;
+  // Opens the folder picker; resolves to false if the user backed out
+  onChooseFolder: () => Promise<boolean>;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm font-mono text-slate-200 disabled:opacity-50';
+
+const ExportSettings: React.FC<ExportSettingsProps> = ({ options, onChange, folderName, onChooseFolder, disabled }) => {
+  const update = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) =>
+    onChange({ ...options, [key]: value });
+  const folderSupported = canSaveToFolder();
+
+  // Turning folder saving on asks for the folder right away, while there's a click to open the picker
+  const toggleSaveToFolder = async (enabled: boolean) => {
+    if (enabled && !folderName && !(await onChooseFolder())) return;
+    update('saveToFolder', enabled);
+  };
+
+  const example = applyNameTemplate(options.nameTemplate, {
+    name: 'IMG_0042',
+    index: 7,
+    date: Date.now(),
+    width: 4032,
+    height: 3024,
+  });
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <span className="text-xs font-semibold text-indigo-400 uppercase">Export</span>
+
+      <div className="space-y-1">
+        <input
+          type="text"
+          value={options.nameTemplate}
+          onChange={e => update('nameTemplate', e.target.value)}
+          disabled={disabled}
+          placeholder="{name}"
+          className={inputClass}
+        />
+        <div className="flex flex-wrap gap-1">
+          {NAME_TOKENS.map(token => (
+            <button
+              key={token}
+              type="button"
+              onClick={() => update('nameTemplate', options.nameTemplate + token)}
+              disabled={disabled}
+              className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 hover:text-slate-200 disabled:opacity-50"
+            >
+              {token}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 truncate" title={`${example}.pdf`}>
+          e.g. <span className="font-mono text-slate-400">{example}.pdf</span>
+        </p>
+      </div>
+
+      <label className="block space-y-1 text-sm">
+        <span className="text-slate-400">ZIP name</span>
+        <input
+          type="text"
+          value={options.zipName}
+          onChange={e => update('zipName', e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block space-y-1 text-sm">
+        <span className="text-slate-400">Folder inside ZIP</span>
+        <input
+          type="text"
+          value={options.folderName}
+          onChange={e => update('folderName', e.target.value)}
+          disabled={disabled}
+          placeholder="(root)"
+          className={inputClass}
+        />
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.preserveFolders}
+          onChange={e => update('preserveFolders', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+        <span className="text-slate-400">Keep original folder structure</span>
+      </label>
+
+      <label className="block space-y-1 text-sm">
+        <span className="text-slate-400">Split ZIPs at (MB)</span>
+        <input
+          type="number"
+          min={0}
+          step={50}
+          value={options.splitSizeMb || ''}
+          onChange={e => update('splitSizeMb', Math.max(0, Number(e.target.value) || 0))}
+          disabled={disabled}
+          placeholder={folderSupported ? 'No limit' : String(IN_MEMORY_ZIP_LIMIT_MB)}
+          className={inputClass}
+        />
+        {!folderSupported && (
+          <span className="block text-xs text-slate-500">
+            This browser builds each ZIP in memory before downloading it, so parts are at most {IN_MEMORY_ZIP_LIMIT_MB} MB,
+            and each part after the first waits for you to click its download button.
+          </span>
+        )}
+      </label>
+
+      {folderSupported && (
+        <div className="space-y-1">
+          <label className="flex items-center space-x-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.saveToFolder}
+              onChange={e => toggleSaveToFolder(e.target.checked)}
+              disabled={disabled}
+              className="accent-indigo-500"
+            />
+            <span className="text-slate-400">Save PDFs to a folder as they finish</span>
+          </label>
+          {options.saveToFolder && (
+            <div className="flex items-center justify-between pl-6 text-xs text-slate-500">
+              <span className="truncate" title="Files already there keep their names; new PDFs with the same name get a number added">
+                {folderName ? <>Into <span className="font-mono text-slate-400">{folderName}</span></> : 'Folder is asked for on convert'}
+              </span>
+              <button
+                type="button"
+                onClick={onChooseFolder}
+                disabled={disabled}
+                className="flex items-center space-x-1 text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+              >
+                <FolderOpen size={12} />
+                <span>{folderName ? 'Change' : 'Choose'}</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center space-x-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.releaseSaved}
+          onChange={e => update('releaseSaved', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+        <span className="text-slate-400" title="Keeps memory use flat on big batches; saved PDFs can't be downloaded again">
+          Free memory once PDFs are saved
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default ExportSettings;
@@ -1,14 +1,80 @@
-import React, { memo } from 'react';
-import { FileData, ConversionStatus } from '../types';
-import { CheckCircle2, Loader2, XCircle, FileImage, Clock } from 'lucide-react';
+import React, { memo, useState } from 'react';
+import { FileData, ConversionStatus, ImageTransform, Rotation, SortKey, WarningStep } from '../types';
+import { SortDirection } from '../utils/sorting';
+import { toCssTransform } from '../utils/orientation';
+import { formatBytes } from '../utils/format';
+import { ERROR_CATEGORY_LABELS } from '../utils/diagnostics';
+import {
+  CheckCircle2, Loader2, XCircle, FileImage, Clock, Ban, CircleSlash, RotateCcw, X,
+  RotateCw, FlipHorizontal2, FlipVertical2, GripVertical, ArrowUp, ArrowDown, Lock, Crop, Copy, HardDrive,
+  TriangleAlert,
+} from 'lucide-react';
 
 interface FileListProps {
   files: FileData[];
   onRemove: (id: string) => void;
+  onRetry: (id: string) => void;
+  // Omitted when items can't be cancelled individually (merge mode)
+  onCancel?: (id: string) => void;
+  onReorder: (fromId: string, toId: string) => void;
+  onSort: (key: SortKey, direction: SortDirection) => void;
+  onTransformChange: (id: string, transform: ImageTransform) => void;
+  onEditScan: (id: string) => void;
+  // Files that repeat an earlier one in the queue
+  duplicates?: Map<string, DuplicateInfo>;
   isProcessing: boolean;
 }
 
-const FileItem = memo(({ file, onRemove, isProcessing }: { file: FileData; onRemove: (id: string) => void; isProcessing: boolean }) => {
+interface DuplicateInfo {
+  originalName: string;
+  exact: boolean;
+}
+
+// What a completed file is missing when a step was skipped
+const WARNING_LABELS: Record<WarningStep, string> = {
+  cleanup: 'Not cleaned up',
+  ocr: 'No text layer',
+};
+
+interface FileItemProps {
+  file: FileData;
+  duplicate?: DuplicateInfo;
+  onRemove: (id: string) => void;
+  onRetry: (id: string) => void;
+  onCancel?: (id: string) => void;
+  onTransformChange: (id: string, transform: ImageTransform) => void;
+  onEditScan: (id: string) => void;
+  isProcessing: boolean;
+  isDropTarget: boolean;
+  onDragStart: (id: string) => void;
+  onDragEnter: (id: string) => void;
+  onDrop: (id: string) => void;
+  onDragEnd: () => void;
+}
+
+const IDENTITY_TRANSFORM: ImageTransform = { rotation: 0, flipH: false, flipV: false };
+
+// Custom type so reordering never gets mistaken for a file drop
+const DRAG_TYPE = 'application/x-batchsnap-item';
+
+const SORT_LABELS: Record<SortKey, string> = {
+  name: 'Name',
+  date: 'Date',
+  size: 'Size',
+};
+
+const FileItem = memo(({
+  file, duplicate, onRemove, onRetry, onCancel, onTransformChange, onEditScan, isProcessing,
+  isDropTarget, onDragStart, onDragEnter, onDrop, onDragEnd,
+}: FileItemProps) => {
+  const transform = file.transform ?? IDENTITY_TRANSFORM;
+  const canEdit = !isProcessing && file.status !== ConversionStatus.UNSUPPORTED;
+
+  const rotate = () =>
+    onTransformChange(file.id, { ...transform, rotation: ((transform.rotation + 90) % 360) as Rotation });
+  const flip = (axis: 'flipH' | 'flipV') =>
+    onTransformChange(file.id, { ...transform, [axis]: !transform[axis] });
+
   const getStatusIcon = () => {
     switch (file.status) {
       case ConversionStatus.COMPLETED:
@@ -19,16 +85,54 @@ const FileItem = memo(({ file, onRemove, isProcessing }: { file: FileData; onRem
         return <XCircle className="text-red-500" size={20} />;
       case ConversionStatus.QUEUED:
         return <Clock className="text-slate-500" size={20} />;
+      case ConversionStatus.CANCELLED:
+        return <CircleSlash className="text-slate-500" size={20} />;
+      case ConversionStatus.UNSUPPORTED:
+        return <Ban className="text-amber-500" size={20} />;
       default:
         return <div className="w-5 h-5 rounded-full border-2 border-slate-600" />;
     }
   };
 
   return (
-    <div className="flex items-center p-3 bg-slate-900 border border-slate-800 rounded-lg group hover:border-slate-700 transition-colors">
+    <div
+      draggable={!isProcessing}
+      onDragStart={e => {
+        e.dataTransfer.setData(DRAG_TYPE, file.id);
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart(file.id);
+      }}
+      onDragEnter={() => onDragEnter(file.id)}
+      onDragOver={e => {
+        if (e.dataTransfer.types.includes(DRAG_TYPE)) e.preventDefault();
+      }}
+      onDrop={e => {
+        e.preventDefault();
+        onDrop(file.id);
+      }}
+      onDragEnd={onDragEnd}
+      className={`flex items-center p-3 bg-slate-900 border rounded-lg group hover:border-slate-700 transition-colors ${
+        isDropTarget ? 'border-indigo-500' : 'border-slate-800'
+      }`}
+    >
+      {!isProcessing && (
+        <GripVertical size={16} className="text-slate-700 group-hover:text-slate-500 mr-2 flex-shrink-0 cursor-grab" />
+      )}
+
       {/* Thumbnail Preview */}
       <div className="w-12 h-12 bg-slate-950 rounded overflow-hidden flex-shrink-0 relative border border-slate-800">
-        <img src={file.previewUrl} alt="preview" className="w-full h-full object-cover opacity-80" />
+        {file.status === ConversionStatus.UNSUPPORTED ? (
+          <div className="w-full h-full flex items-center justify-center text-slate-700">
+            <FileImage size={20} />
+          </div>
+        ) : (
+          <img
+            src={file.previewUrl}
+            alt="preview"
+            className="w-full h-full object-cover opacity-80"
+            style={{ transform: toCssTransform(file.transform) }}
+          />
+        )}
       </div>
 
       <div className="ml-4 flex-1 min-w-0">
@@ -36,14 +140,114 @@ const FileItem = memo(({ file, onRemove, isProcessing }: { file: FileData; onRem
           {file.file.name}
         </p>
         <p className="text-xs text-slate-500 flex items-center mt-0.5">
-          {(file.file.size / 1024).toFixed(1)} KB
-          {file.status === ConversionStatus.ERROR && <span className="text-red-400 ml-2">- {file.error}</span>}
+          {formatBytes(file.file.size)}
+          {file.outputSize !== undefined && (
+            <span className={`ml-1 ${file.outputSize < file.file.size ? 'text-green-400' : ''}`}>
+              &rarr; {formatBytes(file.outputSize)}
+            </span>
+          )}
+          {file.format && <span className="ml-2 uppercase">{file.format}</span>}
+          {duplicate && (
+            <span
+              className={`ml-2 flex items-center ${duplicate.exact ? 'text-amber-400' : 'text-sky-400'}`}
+              title={`${duplicate.exact ? 'Identical to' : 'Looks the same as'} ${duplicate.originalName}`}
+            >
+              <Copy size={12} className="mr-0.5" />
+              {duplicate.exact ? 'Duplicate' : 'Similar'}
+            </span>
+          )}
+          {file.status === ConversionStatus.COMPLETED && file.encrypted && (
+            <span className="ml-2 flex items-center text-amber-400" title="Password-protected PDF">
+              <Lock size={12} className="mr-0.5" />
+              Protected
+            </span>
+          )}
+          {file.status === ConversionStatus.COMPLETED && file.savedTo && (
+            <span className="ml-2 flex items-center text-emerald-400" title={`Saved as ${file.savedTo}`}>
+              <HardDrive size={12} className="mr-0.5" />
+              Saved
+            </span>
+          )}
+          {file.status === ConversionStatus.COMPLETED && file.ocrConfidence !== undefined && (
+            <span
+              className={`ml-2 ${file.ocrConfidence < 60 ? 'text-amber-400' : 'text-sky-400'}`}
+              title="Average OCR confidence"
+            >
+              OCR {Math.round(file.ocrConfidence)}%
+            </span>
+          )}
+          {file.status === ConversionStatus.COMPLETED && file.warnings?.map(warning => (
+            <span
+              key={warning.step}
+              className="ml-2 flex items-center text-amber-400"
+              title={`${warning.message} (${ERROR_CATEGORY_LABELS[warning.category]}${warning.detail ? `: ${warning.detail}` : ''})`}
+            >
+              <TriangleAlert size={12} className="mr-0.5" />
+              {WARNING_LABELS[warning.step]}
+            </span>
+          ))}
+          {file.status === ConversionStatus.ERROR && (
+            <span className="text-red-400 ml-2 truncate" title={file.errorDetail}>
+              - {file.errorCategory && (
+                <span className="font-medium">{ERROR_CATEGORY_LABELS[file.errorCategory]}: </span>
+              )}
+              {file.error}
+            </span>
+          )}
+          {file.status === ConversionStatus.CANCELLED && <span className="text-slate-400 ml-2">- Cancelled</span>}
+          {file.status === ConversionStatus.UNSUPPORTED && <span className="text-amber-400 ml-2 truncate">- {file.error}</span>}
         </p>
       </div>
 
       <div className="flex items-center space-x-4 pl-2">
+        {canEdit && (
+          <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button onClick={rotate} className="text-slate-500 hover:text-indigo-400 transition-colors p-1" title="Rotate 90°">
+              <RotateCw size={16} />
+            </button>
+            <button
+              onClick={() => flip('flipH')}
+              className={`transition-colors p-1 ${transform.flipH ? 'text-indigo-400' : 'text-slate-500 hover:text-indigo-400'}`}
+              title="Flip horizontally"
+            >
+              <FlipHorizontal2 size={16} />
+            </button>
+            <button
+              onClick={() => flip('flipV')}
+              className={`transition-colors p-1 ${transform.flipV ? 'text-indigo-400' : 'text-slate-500 hover:text-indigo-400'}`}
+              title="Flip vertically"
+            >
+              <FlipVertical2 size={16} />
+            </button>
+            <button
+              onClick={() => onEditScan(file.id)}
+              className={`transition-colors p-1 ${file.corners ? 'text-indigo-400' : 'text-slate-500 hover:text-indigo-400'}`}
+              title="Crop and clean up scan"
+            >
+              <Crop size={16} />
+            </button>
+          </div>
+        )}
         {getStatusIcon()}
-        {!isProcessing && file.status === ConversionStatus.IDLE && (
+        {isProcessing && onCancel && (file.status === ConversionStatus.QUEUED || file.status === ConversionStatus.PROCESSING) && (
+          <button
+            onClick={() => onCancel(file.id)}
+            className="text-slate-500 hover:text-amber-400 transition-colors p-1"
+            title="Cancel"
+          >
+            <X size={18} />
+          </button>
+        )}
+        {!isProcessing && (file.status === ConversionStatus.ERROR || file.status === ConversionStatus.CANCELLED) && (
+          <button
+            onClick={() => onRetry(file.id)}
+            className="text-slate-500 hover:text-indigo-400 transition-colors p-1"
+            title="Retry"
+          >
+            <RotateCcw size={18} />
+          </button>
+        )}
+        {!isProcessing && (
           <button
             onClick={() => onRemove(file.id)}
             className="text-slate-500 hover:text-red-400 transition-colors p-1"
@@ -57,20 +261,67 @@ const FileItem = memo(({ file, onRemove, isProcessing }: { file: FileData; onRem
   );
 });
 
-const FileList: React.FC<FileListProps> = ({ files, onRemove, isProcessing }) => {
+const FileList: React.FC<FileListProps> = ({
+  files, onRemove, onRetry, onCancel, onReorder, onSort, onTransformChange, onEditScan, duplicates, isProcessing,
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [lastSort, setLastSort] = useState<{ key: SortKey; direction: SortDirection } | null>(null);
+
   if (files.length === 0) {
     return null;
   }
 
+  // Clicking the active sort again reverses it
+  const handleSort = (key: SortKey) => {
+    const direction: SortDirection = lastSort?.key === key && lastSort.direction === 'asc' ? 'desc' : 'asc';
+    setLastSort({ key, direction });
+    onSort(key, direction);
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (draggedId && draggedId !== targetId) {
+      onReorder(draggedId, targetId);
+      // A manual move means the list no longer follows the last sort
+      setLastSort(null);
+    }
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
   return (
     <div className="flex flex-col h-full">
       <div className="flex items-center justify-between mb-2 px-1">
         <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
           Queue ({files.length})
         </h3>
-        <span className="text-xs text-slate-600 bg-slate-900 px-2 py-1 rounded">
-          {files.filter(f => f.status === ConversionStatus.COMPLETED).length} Done
-        </span>
+        <div className="flex items-center space-x-2">
+          {!isProcessing && (
+            <div className="flex items-center space-x-1 text-xs">
+              <span className="text-slate-600 mr-1">Sort</span>
+              {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => handleSort(key)}
+                  className={`px-2 py-1 rounded flex items-center space-x-1 transition-colors ${
+                    lastSort?.key === key ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900 text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  <span>{SORT_LABELS[key]}</span>
+                  {lastSort?.key === key && (lastSort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                </button>
+              ))}
+            </div>
+          )}
+          <span className="text-xs text-slate-600 bg-slate-900 px-2 py-1 rounded">
+            {files.filter(f => f.status === ConversionStatus.COMPLETED).length} Done
+          </span>
+        </div>
       </div>
       
       <div className="flex-1 overflow-y-auto pr-2 space-y-2 min-h-0">
@@ -78,8 +329,18 @@ const FileList: React.FC<FileListProps> = ({ files, onRemove, isProcessing }) =>
           <FileItem 
             key={file.id} 
             file={file} 
+            duplicate={duplicates?.get(file.id)}
             onRemove={onRemove} 
+            onRetry={onRetry}
+            onCancel={onCancel}
+            onTransformChange={onTransformChange}
+            onEditScan={onEditScan}
             isProcessing={isProcessing} 
+            isDropTarget={dropTargetId === file.id && draggedId !== file.id}
+            onDragStart={setDraggedId}
+            onDragEnter={setDropTargetId}
+            onDrop={handleDrop}
+            onDragEnd={handleDragEnd}
           />
         ))}
       </div>
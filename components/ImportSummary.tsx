@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { SkippedFile, SkipReason } from '../utils/folderImport';
+
+interface ImportSummaryProps {
+  skipped: SkippedFile[];
+  onDismiss: () => void;
+}
+
+const REASON_LABELS: Record<SkipReason, string> = {
+  hidden: 'hidden',
+  'not-image': 'not an image',
+};
+
+// How many paths to show before collapsing the rest behind "Show all"
+const PREVIEW_COUNT = 5;
+
+const ImportSummary: React.FC<ImportSummaryProps> = ({ skipped, onDismiss }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const counts: Partial<Record<SkipReason, number>> = {};
+  skipped.forEach(s => {
+    counts[s.reason] = (counts[s.reason] ?? 0) + 1;
+  });
+  const visible = expanded ? skipped : skipped.slice(0, PREVIEW_COUNT);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-indigo-400 uppercase">
+          Skipped {skipped.length} {skipped.length === 1 ? 'file' : 'files'}
+        </span>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-800"
+          title="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {(Object.keys(counts) as SkipReason[]).map(reason => `${counts[reason]} ${REASON_LABELS[reason]}`).join(' · ')}
+      </p>
+
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {visible.map(s => (
+          <li key={s.path} className="flex justify-between space-x-2 text-xs">
+            <span className="font-mono text-slate-400 truncate" title={s.path}>{s.path}</span>
+            <span className="text-slate-600 shrink-0">{REASON_LABELS[s.reason]}</span>
+          </li>
+        ))}
+      </ul>
+
+      {skipped.length > PREVIEW_COUNT && (
+        <button
+          type="button"
+          onClick={() => setExpanded(e => !e)}
+          className="text-xs text-indigo-400 hover:text-indigo-300"
+        >
+          {expanded ? 'Show less' : `Show all ${skipped.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ImportSummary;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { InputOptions, RasterStrategy } from '../types';
+
+interface InputSettingsProps {
+  options: InputOptions;
+  onChange: (options: InputOptions) => void;
+  disabled?: boolean;
+}
+
+const STRATEGY_LABELS: Record<RasterStrategy, string> = {
+  png: 'PNG (lossless, larger)',
+  jpeg: 'JPEG (smaller)',
+};
+
+const InputSettings: React.FC<InputSettingsProps> = ({ options, onChange, disabled }) => {
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <div>
+        <span className="text-xs font-semibold text-indigo-400 uppercase">WebP / GIF / BMP</span>
+        <p className="text-xs text-slate-500 mt-1">
+          JPEG and PNG are embedded losslessly. Other formats are re-encoded as:
+        </p>
+      </div>
+
+      <select
+        value={options.rasterStrategy}
+        onChange={e => onChange({ ...options, rasterStrategy: e.target.value as RasterStrategy })}
+        disabled={disabled}
+        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 disabled:opacity-50"
+      >
+        {(Object.keys(STRATEGY_LABELS) as RasterStrategy[]).map(s => (
+          <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>
+        ))}
+      </select>
+
+      {options.rasterStrategy === 'jpeg' && (
+        <label className="flex justify-between items-center text-sm">
+          <span className="text-slate-400">Quality</span>
+          <span className="flex items-center space-x-2">
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={options.jpegQuality}
+              onChange={e => onChange({ ...options, jpegQuality: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-28 accent-indigo-500"
+            />
+            <span className="font-mono text-xs w-8 text-right">{Math.round(options.jpegQuality * 100)}</span>
+          </span>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default InputSettings;
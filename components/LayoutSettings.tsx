@@ -0,0 +1,131 @@
+import React from 'react';
+import { LayoutOptions, PageSize, PageOrientation, ImagePlacement } from '../types';
+
+interface LayoutSettingsProps {
+  options: LayoutOptions;
+  onChange: (options: LayoutOptions) => void;
+  disabled?: boolean;
+}
+
+const PAGE_SIZE_LABELS: Record<PageSize, string> = {
+  image: 'Exact image size',
+  a4: 'A4',
+  letter: 'Letter',
+  legal: 'Legal',
+};
+
+const ORIENTATION_LABELS: Record<PageOrientation, string> = {
+  auto: 'Auto (per image)',
+  portrait: 'Portrait',
+  landscape: 'Landscape',
+};
+
+const PLACEMENT_LABELS: Record<ImagePlacement, string> = {
+  fit: 'Fit inside',
+  fill: 'Fill & crop',
+  center: 'Center',
+  actual: 'Actual size (DPI)',
+};
+
+const selectClass = 'w-36 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-200 disabled:opacity-50';
+const numberClass = 'w-20 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono text-slate-200 disabled:opacity-50';
+
+const LayoutSettings: React.FC<LayoutSettingsProps> = ({ options, onChange, disabled }) => {
+  const update = <K extends keyof LayoutOptions>(key: K, value: LayoutOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <span className="text-xs font-semibold text-indigo-400 uppercase">Page Layout</span>
+
+      <label className="flex justify-between items-center text-sm">
+        <span className="text-slate-400">Page size</span>
+        <select
+          value={options.pageSize}
+          onChange={e => update('pageSize', e.target.value as PageSize)}
+          disabled={disabled}
+          className={selectClass}
+        >
+          {(Object.keys(PAGE_SIZE_LABELS) as PageSize[]).map(size => (
+            <option key={size} value={size}>{PAGE_SIZE_LABELS[size]}</option>
+          ))}
+        </select>
+      </label>
+
+      {options.pageSize !== 'image' && (
+        <>
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Orientation</span>
+            <select
+              value={options.orientation}
+              onChange={e => update('orientation', e.target.value as PageOrientation)}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {(Object.keys(ORIENTATION_LABELS) as PageOrientation[]).map(o => (
+                <option key={o} value={o}>{ORIENTATION_LABELS[o]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Placement</span>
+            <select
+              value={options.placement}
+              onChange={e => update('placement', e.target.value as ImagePlacement)}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {(Object.keys(PLACEMENT_LABELS) as ImagePlacement[]).map(p => (
+                <option key={p} value={p}>{PLACEMENT_LABELS[p]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Margin (mm)</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={options.marginMm}
+              onChange={e => update('marginMm', Math.max(0, Number(e.target.value) || 0))}
+              disabled={disabled}
+              className={numberClass}
+            />
+          </label>
+
+          {options.placement === 'actual' && (
+            <label className="flex justify-between items-center text-sm">
+              <span className="text-slate-400">DPI</span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={options.dpi}
+                onChange={e => update('dpi', Math.max(1, Number(e.target.value) || 1))}
+                disabled={disabled}
+                className={numberClass}
+              />
+            </label>
+          )}
+        </>
+      )}
+
+      {(options.pageSize === 'image' || options.placement === 'actual') && (
+        <label className="flex items-center space-x-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.useImageDpi}
+            onChange={e => update('useImageDpi', e.target.checked)}
+            disabled={disabled}
+            className="accent-indigo-500"
+          />
+          <span className="text-slate-400">Use the image's own DPI when present</span>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default LayoutSettings;
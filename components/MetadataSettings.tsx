@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { ConversionStatus, DocumentMetadata, FileData, MetadataOptions, PageLabelStyle } from '../types';
+import { getFileMetadata } from '../utils/metadata';
+
+interface MetadataSettingsProps {
+  options: MetadataOptions;
+  onChange: (options: MetadataOptions) => void;
+  files: FileData[];
+  onFileMetadataChange: (id: string, metadata: Partial<DocumentMetadata>) => void;
+  isMergeMode: boolean;
+  disabled?: boolean;
+}
+
+const FIELD_LABELS: Record<keyof DocumentMetadata, string> = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+};
+
+const PAGE_LABEL_STYLES: Record<PageLabelStyle, string> = {
+  none: 'None',
+  D: '1, 2, 3',
+  r: 'i, ii, iii',
+  R: 'I, II, III',
+  a: 'a, b, c',
+  A: 'A, B, C',
+};
+
+// Value of the file picker while the batch defaults are being edited
+const BATCH = '';
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 disabled:opacity-50';
+
+const MetadataSettings: React.FC<MetadataSettingsProps> = ({
+  options, onChange, files, onFileMetadataChange, isMergeMode, disabled,
+}) => {
+  const [selectedId, setSelectedId] = useState(BATCH);
+
+  const editableFiles = files.filter(f => f.status !== ConversionStatus.UNSUPPORTED);
+  const selected = editableFiles.find(f => f.id === selectedId);
+
+  const update = <K extends keyof MetadataOptions>(key: K, value: MetadataOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  // Blank overrides are dropped so the file falls back to the batch template again
+  const updateFile = (file: FileData, key: keyof DocumentMetadata, value: string) => {
+    const metadata = { ...file.metadata, [key]: value };
+    if (!value) delete metadata[key];
+    onFileMetadataChange(file.id, metadata);
+  };
+
+  // In merged documents only the title applies per file, as the bookmark's name
+  const fileFields: (keyof DocumentMetadata)[] = isMergeMode ? ['title'] : ['title', 'author', 'subject', 'keywords'];
+  const defaults = selected && getFileMetadata({ ...selected, metadata: undefined }, options, files.indexOf(selected) + 1);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <span className="text-xs font-semibold text-indigo-400 uppercase">Document Info</span>
+
+      {editableFiles.length > 0 && (
+        <select
+          value={selected ? selectedId : BATCH}
+          onChange={e => setSelectedId(e.target.value)}
+          disabled={disabled}
+          className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 disabled:opacity-50"
+        >
+          <option value={BATCH}>All files (defaults)</option>
+          {editableFiles.map(f => (
+            <option key={f.id} value={f.id}>{f.file.name}</option>
+          ))}
+        </select>
+      )}
+
+      {selected && defaults ? (
+        fileFields.map(field => (
+          <label key={field} className="block space-y-1 text-sm">
+            <span className="text-slate-400">
+              {isMergeMode && field === 'title' ? 'Bookmark title' : FIELD_LABELS[field]}
+            </span>
+            <input
+              type="text"
+              value={selected.metadata?.[field] ?? ''}
+              onChange={e => updateFile(selected, field, e.target.value)}
+              placeholder={isMergeMode ? selected.file.name : defaults[field] || '(none)'}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+        ))
+      ) : (
+        <>
+          {(Object.keys(FIELD_LABELS) as (keyof DocumentMetadata)[]).map(field => (
+            <label key={field} className="block space-y-1 text-sm">
+              <span className="text-slate-400">{FIELD_LABELS[field]}</span>
+              <input
+                type="text"
+                value={options[field]}
+                onChange={e => update(field, e.target.value)}
+                disabled={disabled}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+          ))}
+          <p className="text-xs text-slate-500">
+            Tokens: <span className="font-mono">{'{name} {index} {date} {width} {height}'}</span>
+          </p>
+        </>
+      )}
+
+      {isMergeMode && (
+        <div className="pt-2 border-t border-slate-800 space-y-3">
+          <label className="flex items-center space-x-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.bookmarks}
+              onChange={e => update('bookmarks', e.target.checked)}
+              disabled={disabled}
+              className="accent-indigo-500"
+            />
+            <span className="text-slate-400">Bookmark each image</span>
+          </label>
+
+          <div className="flex space-x-2">
+            <label className="flex-1 space-y-1 text-sm">
+              <span className="text-slate-400">Page labels</span>
+              <select
+                value={options.pageLabels}
+                onChange={e => update('pageLabels', e.target.value as PageLabelStyle)}
+                disabled={disabled}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 disabled:opacity-50"
+              >
+                {(Object.keys(PAGE_LABEL_STYLES) as PageLabelStyle[]).map(style => (
+                  <option key={style} value={style}>{PAGE_LABEL_STYLES[style]}</option>
+                ))}
+              </select>
+            </label>
+            {options.pageLabels !== 'none' && (
+              <label className="w-24 space-y-1 text-sm">
+                <span className="text-slate-400">Prefix</span>
+                <input
+                  type="text"
+                  value={options.pageLabelPrefix}
+                  onChange={e => update('pageLabelPrefix', e.target.value)}
+                  placeholder="e.g. A-"
+                  disabled={disabled}
+                  className={inputClass}
+                />
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetadataSettings;
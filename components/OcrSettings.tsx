@@ -0,0 +1,63 @@
+import React from 'react';
+import { OcrLanguage, OcrOptions } from '../types';
+import { OCR_LANGUAGES } from '../utils/ocr';
+
+interface OcrSettingsProps {
+  options: OcrOptions;
+  onChange: (options: OcrOptions) => void;
+  disabled?: boolean;
+}
+
+const OcrSettings: React.FC<OcrSettingsProps> = ({ options, onChange, disabled }) => {
+  const update = <K extends keyof OcrOptions>(key: K, value: OcrOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  // At least one model has to stay selected
+  const toggleLanguage = (language: OcrLanguage, selected: boolean) => {
+    const languages = selected
+      ? [...options.languages, language]
+      : options.languages.filter(l => l !== language);
+    if (languages.length > 0) update('languages', languages);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-xs font-semibold text-indigo-400 uppercase">Searchable Text (OCR)</span>
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={e => update('enabled', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+      </label>
+
+      {options.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-1.5">
+            {(Object.keys(OCR_LANGUAGES) as OcrLanguage[]).map(language => (
+              <label key={language} className="flex items-center space-x-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.languages.includes(language)}
+                  onChange={e => toggleLanguage(language, e.target.checked)}
+                  disabled={disabled}
+                  className="accent-indigo-500"
+                />
+                <span className="text-slate-400">{OCR_LANGUAGES[language]}</span>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Adds an invisible text layer so the PDFs can be searched and copied from. Recognition runs
+            on this device with bundled models and works offline; each extra language slows it down.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OcrSettings;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { ColorMode, OptimizeOptions } from '../types';
+import { MIN_OPTIMIZE_QUALITY } from '../constants';
+
+interface OptimizeSettingsProps {
+  options: OptimizeOptions;
+  onChange: (options: OptimizeOptions) => void;
+  disabled?: boolean;
+}
+
+const COLOR_MODE_LABELS: Record<ColorMode, string> = {
+  color: 'Color',
+  grayscale: 'Grayscale',
+  bw: 'Black & white (documents)',
+};
+
+const inputClass = 'w-24 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-sm font-mono text-right text-slate-200 disabled:opacity-50';
+
+const OptimizeSettings: React.FC<OptimizeSettingsProps> = ({ options, onChange, disabled }) => {
+  const update = <K extends keyof OptimizeOptions>(key: K, value: OptimizeOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  // Empty or invalid input means "no limit"
+  const toLimit = (value: string) => Math.max(0, Math.floor(Number(value)) || 0);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-xs font-semibold text-indigo-400 uppercase">Compression</span>
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={e => update('enabled', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+      </label>
+
+      {!options.enabled ? (
+        <p className="text-xs text-slate-500">Off: images are embedded at full quality.</p>
+      ) : (
+        <>
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Max long edge (px)</span>
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={options.maxLongEdge || ''}
+              placeholder="none"
+              onChange={e => update('maxLongEdge', toLimit(e.target.value))}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Target DPI</span>
+            <input
+              type="number"
+              min={0}
+              step={10}
+              value={options.targetDpi || ''}
+              placeholder="none"
+              onChange={e => update('targetDpi', toLimit(e.target.value))}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Quality</span>
+            <span className="flex items-center space-x-2">
+              <input
+                type="range"
+                min={MIN_OPTIMIZE_QUALITY}
+                max={1}
+                step={0.01}
+                value={options.jpegQuality}
+                onChange={e => update('jpegQuality', Number(e.target.value))}
+                disabled={disabled || options.colorMode === 'bw'}
+                className="w-28 accent-indigo-500"
+              />
+              <span className="font-mono text-xs w-8 text-right">{Math.round(options.jpegQuality * 100)}</span>
+            </span>
+          </label>
+
+          <select
+            value={options.colorMode}
+            onChange={e => update('colorMode', e.target.value as ColorMode)}
+            disabled={disabled}
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 disabled:opacity-50"
+          >
+            {(Object.keys(COLOR_MODE_LABELS) as ColorMode[]).map(mode => (
+              <option key={mode} value={mode}>{COLOR_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Target total size (MB)</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={options.targetSizeMb || ''}
+              placeholder="none"
+              onChange={e => update('targetSizeMb', Math.max(0, Number(e.target.value) || 0))}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+          <p className="text-xs text-slate-500">
+            Quality, then resolution, is lowered until each image fits its share of the target.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OptimizeSettings;
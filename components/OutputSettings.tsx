@@ -0,0 +1,77 @@
+import React from 'react';
+import { OutputOptions, OutputMode, MergeGrouping } from '../types';
+import { Files, Layers } from 'lucide-react';
+
+interface OutputSettingsProps {
+  options: OutputOptions;
+  onChange: (options: OutputOptions) => void;
+  disabled?: boolean;
+}
+
+const GROUPING_LABELS: Record<MergeGrouping, string> = {
+  'all': 'All images in one PDF',
+  'every-n': 'Every N images',
+  'folder': 'One PDF per folder',
+};
+
+const OutputSettings: React.FC<OutputSettingsProps> = ({ options, onChange, disabled }) => {
+  const setMode = (mode: OutputMode) => onChange({ ...options, mode });
+
+  const modeButton = (mode: OutputMode, label: string, icon: React.ReactNode) => (
+    <button
+      type="button"
+      onClick={() => setMode(mode)}
+      disabled={disabled}
+      className={`flex-1 py-2 px-3 rounded-lg text-xs font-medium flex items-center justify-center space-x-1.5 transition-colors disabled:opacity-50 ${
+        options.mode === mode
+          ? 'bg-indigo-600 text-white'
+          : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+      }`}
+    >
+      {icon}
+      <span>{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <span className="text-xs font-semibold text-indigo-400 uppercase">Output</span>
+
+      <div className="flex space-x-2">
+        {modeButton('separate', 'PDF per image', <Files size={14} />)}
+        {modeButton('merge', 'Merge', <Layers size={14} />)}
+      </div>
+
+      {options.mode === 'merge' && (
+        <div className="space-y-2">
+          <select
+            value={options.grouping}
+            onChange={e => onChange({ ...options, grouping: e.target.value as MergeGrouping })}
+            disabled={disabled}
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 disabled:opacity-50"
+          >
+            {(Object.keys(GROUPING_LABELS) as MergeGrouping[]).map(g => (
+              <option key={g} value={g}>{GROUPING_LABELS[g]}</option>
+            ))}
+          </select>
+
+          {options.grouping === 'every-n' && (
+            <label className="flex justify-between items-center text-sm">
+              <span className="text-slate-400">Images per PDF</span>
+              <input
+                type="number"
+                min={1}
+                value={options.groupSize}
+                onChange={e => onChange({ ...options, groupSize: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={disabled}
+                className="w-20 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono text-slate-200 disabled:opacity-50"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutputSettings;
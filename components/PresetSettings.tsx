@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import saveAs from 'file-saver';
+import { ConversionOptions } from '../types';
+import {
+  getPresetFileName, matchesPreset, normalizePresetName, parsePresetFile, Preset, serializePreset,
+} from '../utils/presets';
+
+interface PresetSettingsProps {
+  presets: Preset[];
+  options: ConversionOptions;
+  onApply: (preset: Preset) => void;
+  // Saves under `name`, replacing any preset already called that
+  onSave: (name: string, options: ConversionOptions) => Promise<Preset>;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+const iconButtonClass = 'p-1.5 rounded-lg border border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-500 disabled:opacity-50 disabled:hover:text-slate-400 disabled:hover:border-slate-700';
+
+const PresetSettings: React.FC<PresetSettingsProps> = ({ presets, options, onApply, onSave, onDelete, disabled }) => {
+  // Name being typed for a new preset; null when not saving
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const active = presets.find(p => matchesPreset(p, options));
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(preset);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const name = normalizePresetName(draftName ?? '');
+    if (!name) return;
+    try {
+      await onSave(name, options);
+      setDraftName(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save preset');
+    }
+  };
+
+  const handleExport = () => {
+    if (!active) return;
+    saveAs(new Blob([serializePreset(active)], { type: 'application/json' }), getPresetFileName(active.name));
+  };
+
+  // An imported preset is saved and applied straight away
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { name, options: imported } = parsePresetFile(await file.text());
+      onApply(await onSave(name, imported));
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'Could not import preset'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {draftName === null ? (
+        <div className="flex items-center space-x-2">
+          <select
+            value={active?.id ?? ''}
+            onChange={e => handleSelect(e.target.value)}
+            disabled={disabled || presets.length === 0}
+            className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 disabled:opacity-50"
+            title="Preset"
+          >
+            <option value="" disabled>{presets.length === 0 ? 'No saved presets' : 'Custom settings'}</option>
+            {presets.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setDraftName(active?.name ?? '')}
+            disabled={disabled}
+            className={iconButtonClass}
+            title="Save settings as a preset"
+          >
+            <Save size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!active}
+            className={iconButtonClass}
+            title={active ? `Export "${active.name}" as a file` : 'Select a preset to export it'}
+          >
+            <Download size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            disabled={disabled}
+            className={iconButtonClass}
+            title="Import a preset file"
+          >
+            <Upload size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={() => active && onDelete(active.id)}
+            disabled={disabled || !active}
+            className={`${iconButtonClass} hover:text-red-400`}
+            title={active ? `Delete "${active.name}"` : 'Select a preset to delete it'}
+          >
+            <Trash2 size={16} />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      ) : (
+        <form
+          className="flex items-center space-x-2"
+          onSubmit={e => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <input
+            type="text"
+            value={draftName}
+            onChange={e => setDraftName(e.target.value)}
+            placeholder="Preset name, e.g. Invoice scans"
+            autoFocus
+            className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 placeholder:text-slate-600"
+          />
+          <button
+            type="submit"
+            disabled={!normalizePresetName(draftName)}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraftName(null)}
+            className="px-2 py-1.5 rounded-lg text-xs text-slate-400 hover:text-slate-200"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {draftName !== null && presets.some(p => p.name.toLowerCase() === normalizePresetName(draftName).toLowerCase()) && (
+        <p className="text-xs text-amber-400">A preset with this name will be replaced.</p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PresetSettings;
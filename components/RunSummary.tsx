@@ -0,0 +1,80 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import saveAs from 'file-saver';
+import { ErrorCategory } from '../types';
+import { ERROR_CATEGORY_LABELS } from '../utils/diagnostics';
+import { formatDuration } from '../utils/format';
+import { formatReport, getReportFileName, ReportFormat, RunReport } from '../utils/runReport';
+
+interface RunSummaryProps {
+  // Taken when the run finished
+  report: RunReport;
+}
+
+const REPORT_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Timings and failure causes of the last finished run, with the report downloads
+const RunSummary: React.FC<RunSummaryProps> = ({ report }) => {
+  const { durationMs: elapsed, processed } = report.run;
+  if (elapsed === undefined) return null;
+
+  const causes = new Map<ErrorCategory, number>();
+  let warned = 0;
+  report.files.forEach(f => {
+    if (f.status === 'failed' && f.errorCategory) {
+      causes.set(f.errorCategory, (causes.get(f.errorCategory) ?? 0) + 1);
+    }
+    if (f.warnings?.length) warned++;
+  });
+
+  const download = (format: ReportFormat) => {
+    saveAs(new Blob([formatReport(report, format)], { type: REPORT_TYPES[format] }), getReportFileName(format));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>
+          Took <span className="font-mono text-slate-300">{formatDuration(elapsed)}</span>
+        </span>
+        {processed > 0 && (
+          <span>
+            <span className="font-mono text-slate-300">{formatDuration(elapsed / processed)}</span> per file
+          </span>
+        )}
+      </div>
+      {causes.size > 0 && (
+        <p className="text-xs text-red-400">
+          {Array.from(causes, ([category, count]) => `${count} ${ERROR_CATEGORY_LABELS[category].toLowerCase()}`).join(', ')}
+        </p>
+      )}
+      {warned > 0 && (
+        <p className="text-xs text-amber-400">
+          {warned} {warned === 1 ? 'file was' : 'files were'} converted without scan cleanup or OCR; see the report
+        </p>
+      )}
+      <div className="flex items-center space-x-2">
+        <span className="flex items-center space-x-1 text-xs text-slate-500 flex-1">
+          <FileText size={12} />
+          <span>Run report</span>
+        </span>
+        {(Object.keys(REPORT_TYPES) as ReportFormat[]).map(format => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => download(format)}
+            className="px-2 py-1 rounded-lg border border-slate-700 text-xs font-medium uppercase text-slate-400 hover:text-slate-200 hover:border-slate-500"
+            title={format === 'json' ? 'Every file plus the run totals and times' : 'One row per file'}
+          >
+            {format}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RunSummary;
@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CleanupOptions, FileData, Point, Quad } from '../types';
+import { cleanupScan, detectPageCorners, FULL_FRAME } from '../utils/scanCleanup';
+import { Loader2, ScanLine, Maximize, X } from 'lucide-react';
+
+interface ScanEditorProps {
+  file: FileData;
+  options: CleanupOptions;
+  // Undefined clears the file's corners so it goes back to automatic detection
+  onSave: (corners: Quad | undefined) => void;
+  onClose: () => void;
+}
+
+type View = 'before' | 'after';
+
+// The after preview is rendered smaller than the real output to stay quick
+const PREVIEW_EDGE = 1600;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const ScanEditor: React.FC<ScanEditorProps> = ({ file, options, onSave, onClose }) => {
+  const [corners, setCorners] = useState<Quad>(file.corners ?? FULL_FRAME);
+  const [view, setView] = useState<View>('before');
+  const [afterUrl, setAfterUrl] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const detect = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const detected = await detectPageCorners(file.file);
+      if (detected) {
+        setCorners(detected);
+      } else {
+        setMessage('No page edges found. Drag the corners into place.');
+      }
+    } catch (err) {
+      console.error('Page detection failed', err);
+      setMessage('Could not read this image.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Start from the detected outline unless the file already has hand-set corners
+  useEffect(() => {
+    if (!file.corners) detect();
+  }, [file.id]);
+
+  // Rendered on demand, as corners can only be dragged in the before view
+  useEffect(() => {
+    if (view !== 'after') return;
+    let cancelled = false;
+    let url: string | null = null;
+    setIsBusy(true);
+    cleanupScan(file.file, options, corners, PREVIEW_EDGE)
+      .then(canvas => canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 }))
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setAfterUrl(url);
+      })
+      .catch(err => {
+        console.error('Cleanup preview failed', err);
+        if (!cancelled) setMessage('Could not render the preview.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsBusy(false);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setAfterUrl(null);
+    };
+  }, [view, file.file, options, corners]);
+
+  const pointFromEvent = (e: React.PointerEvent): Point | null => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const point = pointFromEvent(e);
+    if (!point) return;
+    setCorners(prev => prev.map((p, i) => (i === dragIndex ? point : p)) as Quad);
+  };
+
+  const outline = corners.map(p => `${p.x},${p.y}`).join(' ');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-800 rounded-xl w-full max-w-3xl max-h-full flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-slate-200">Scan cleanup</h3>
+            <p className="text-xs text-slate-500 truncate">{file.file.name}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200 p-1" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-2 text-xs">
+          <div className="flex bg-slate-950 rounded-lg p-1">
+            {(['before', 'after'] as View[]).map(v => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 rounded-md capitalize transition-colors ${
+                  view === v ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          {view === 'before' && (
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={detect}
+                disabled={isBusy}
+                className="flex items-center px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-indigo-300 disabled:opacity-50"
+              >
+                <ScanLine size={14} className="mr-1" /> Detect edges
+              </button>
+              <button
+                onClick={() => setCorners(FULL_FRAME)}
+                disabled={isBusy}
+                className="flex items-center px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-indigo-300 disabled:opacity-50"
+              >
+                <Maximize size={14} className="mr-1" /> Whole image
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center px-4 pb-2 relative">
+          {view === 'before' ? (
+            <div
+              ref={frameRef}
+              className="relative inline-block select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDragIndex(null)}
+              onPointerCancel={() => setDragIndex(null)}
+            >
+              {/* Browsers show the image with its EXIF orientation applied, which is what corners refer to */}
+              <img src={file.previewUrl} alt="original" draggable={false} className="block max-h-[60vh] max-w-full" />
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                <polygon
+                  points={outline}
+                  fill="rgba(99, 102, 241, 0.15)"
+                  stroke="#818cf8"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+              {corners.map((p, i) => (
+                <div
+                  key={i}
+                  onPointerDown={e => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    setDragIndex(i);
+                  }}
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-indigo-500 border-2 border-white cursor-move"
+                  style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                />
+              ))}
+            </div>
+          ) : afterUrl ? (
+            <img src={afterUrl} alt="cleaned up" className="block max-h-[60vh] max-w-full" />
+          ) : (
+            <div className="h-64" />
+          )}
+          {isBusy && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="text-indigo-400 animate-spin" size={28} />
+            </div>
+          )}
+        </div>
+
+        <p className="px-4 text-xs text-slate-500 min-h-[1rem]">
+          {message ?? (options.enabled
+            ? 'Deskew, border trimming and enhancement follow the Scan Cleanup settings.'
+            : 'Only the page outline is applied while Scan Cleanup is off.')}
+        </p>
+
+        <div className="flex items-center justify-end space-x-2 px-4 py-3 border-t border-slate-800">
+          {file.corners && (
+            <button
+              onClick={() => onSave(undefined)}
+              className="mr-auto px-3 py-1.5 rounded-lg text-sm text-slate-400 hover:text-red-400"
+            >
+              Remove adjustment
+            </button>
+          )}
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-sm text-slate-400 hover:text-slate-200">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(corners)}
+            className="px-4 py-1.5 rounded-lg text-sm font-medium bg-indigo-600 hover:bg-indigo-500 text-white"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanEditor;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { PdfPermission, SecurityOptions } from '../types';
+
+interface SecuritySettingsProps {
+  options: SecurityOptions;
+  onChange: (options: SecurityOptions) => void;
+  // Protection was restored without its passwords and still needs them
+  passwordsNeeded?: boolean;
+  onSkipPasswords?: () => void;
+  disabled?: boolean;
+}
+
+const PERMISSION_LABELS: Record<PdfPermission, string> = {
+  print: 'Allow printing',
+  copy: 'Allow copying text and images',
+  modify: 'Allow editing',
+};
+
+// The PDF security handler jsPDF implements only takes single-byte characters
+const isEncodable = (password: string) => /^[\x20-\x7e]*$/.test(password);
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 disabled:opacity-50';
+
+const SecuritySettings: React.FC<SecuritySettingsProps> = ({ options, onChange, passwordsNeeded, onSkipPasswords, disabled }) => {
+  const update = <K extends keyof SecurityOptions>(key: K, value: SecurityOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  const togglePermission = (permission: PdfPermission, allowed: boolean) =>
+    update('permissions', allowed
+      ? [...options.permissions, permission]
+      : options.permissions.filter(p => p !== permission));
+
+  const hasInvalidPassword = !isEncodable(options.userPassword) || !isEncodable(options.ownerPassword);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-xs font-semibold text-indigo-400 uppercase">Password Protection</span>
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={e => update('enabled', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+      </label>
+
+      {options.enabled && (
+        <>
+          {passwordsNeeded && (
+            <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-2 space-y-1.5 text-xs text-amber-300">
+              <p>
+                Passwords aren't saved with the session or in presets. Enter them again to convert, or go on
+                without: the PDFs then open for anyone and only the permissions below apply.
+              </p>
+              <button
+                type="button"
+                onClick={onSkipPasswords}
+                disabled={disabled}
+                className="font-medium underline hover:text-amber-200"
+              >
+                Continue without passwords
+              </button>
+            </div>
+          )}
+
+          <label className="block space-y-1 text-sm">
+            <span className="text-slate-400">Password to open</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={options.userPassword}
+              onChange={e => update('userPassword', e.target.value)}
+              placeholder="(anyone can open)"
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+
+          <label className="block space-y-1 text-sm">
+            <span className="text-slate-400">Owner password</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={options.ownerPassword}
+              onChange={e => update('ownerPassword', e.target.value)}
+              placeholder="(restrictions can't be lifted)"
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+
+          {hasInvalidPassword && (
+            <p className="text-xs text-red-400">Passwords may only use plain ASCII letters, digits and symbols.</p>
+          )}
+
+          <div className="space-y-1.5">
+            {(Object.keys(PERMISSION_LABELS) as PdfPermission[]).map(permission => (
+              <label key={permission} className="flex items-center space-x-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.permissions.includes(permission)}
+                  onChange={e => togglePermission(permission, e.target.checked)}
+                  disabled={disabled}
+                  className="accent-indigo-500"
+                />
+                <span className="text-slate-400">{PERMISSION_LABELS[permission]}</span>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Encryption happens on this device and passwords are never saved, so re-enter them after a reload.
+            Uses the basic 40-bit PDF standard: fine against casual access, not against a determined attacker.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SecuritySettings;
@@ -0,0 +1,242 @@
+import React, { useRef, useState } from 'react';
+import { StampKind, StampOptions, StampPosition } from '../types';
+import { loadStampLogo, STAMP_TOKENS } from '../utils/stamp';
+
+interface StampSettingsProps {
+  options: StampOptions;
+  onChange: (options: StampOptions) => void;
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<StampKind, string> = {
+  text: 'Text',
+  image: 'Logo',
+};
+
+// What each token in STAMP_TOKENS becomes on the page
+const TOKEN_HINTS: Record<string, string> = {
+  '{page}': 'Page number, counted across the whole batch',
+  '{total}': 'Number of pages in the whole batch',
+  '{filename}': 'Name of the image the page was made from',
+  '{date}': "Today's date",
+};
+
+const POSITION_LABELS: Record<StampPosition, string> = {
+  'top-left': 'Top left',
+  'top-center': 'Top center',
+  'top-right': 'Top right',
+  center: 'Center',
+  'bottom-left': 'Bottom left',
+  'bottom-center': 'Bottom center',
+  'bottom-right': 'Bottom right',
+};
+
+const selectClass = 'w-36 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-200 disabled:opacity-50';
+const numberClass = 'w-20 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-right font-mono text-slate-200 disabled:opacity-50';
+
+const StampSettings: React.FC<StampSettingsProps> = ({ options, onChange, disabled }) => {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const update = <K extends keyof StampOptions>(key: K, value: StampOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  const handleLogoInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update('logo', await loadStampLogo(file));
+      setLogoError(null);
+    } catch (err) {
+      setLogoError(err instanceof Error ? err.message : 'Could not read logo');
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-xs font-semibold text-indigo-400 uppercase">Stamp</span>
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={e => update('enabled', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+      </label>
+
+      {options.enabled && (
+        <>
+          <div className="flex bg-slate-950 rounded-lg p-1">
+            {(Object.keys(KIND_LABELS) as StampKind[]).map(kind => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => update('kind', kind)}
+                disabled={disabled}
+                className={`flex-1 py-1 text-sm rounded-md transition-colors disabled:opacity-50 ${
+                  options.kind === kind ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+
+          {options.kind === 'text' ? (
+            <>
+              <div className="space-y-1">
+                <input
+                  type="text"
+                  value={options.text}
+                  onChange={e => update('text', e.target.value)}
+                  disabled={disabled}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm font-mono text-slate-200 disabled:opacity-50"
+                />
+                <div className="flex flex-wrap gap-1">
+                  {STAMP_TOKENS.map(token => (
+                    <button
+                      key={token}
+                      type="button"
+                      onClick={() => update('text', options.text + token)}
+                      disabled={disabled}
+                      title={TOKEN_HINTS[token]}
+                      className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 hover:text-slate-200 disabled:opacity-50"
+                    >
+                      {token}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500">
+                  Click a token to add it. Zeros pad page numbers, e.g. {'{page:000000}'} for Bates numbering.
+                </p>
+              </div>
+
+              <label className="flex justify-between items-center text-sm">
+                <span className="text-slate-400">Font size (pt)</span>
+                <input
+                  type="number"
+                  min={4}
+                  max={400}
+                  value={options.fontSize}
+                  onChange={e => update('fontSize', Math.max(4, Number(e.target.value) || 4))}
+                  disabled={disabled}
+                  className={numberClass}
+                />
+              </label>
+
+              <label className="flex justify-between items-center text-sm">
+                <span className="text-slate-400">Color</span>
+                <input
+                  type="color"
+                  value={options.color}
+                  onChange={e => update('color', e.target.value)}
+                  disabled={disabled}
+                  className="w-20 h-7 bg-slate-950 border border-slate-700 rounded-lg disabled:opacity-50"
+                />
+              </label>
+            </>
+          ) : (
+            <>
+              <input
+                type="file"
+                ref={logoInputRef}
+                onChange={handleLogoInput}
+                className="hidden"
+                accept="image/png,image/jpeg"
+              />
+              <div className="flex items-center space-x-3">
+                {options.logo && (
+                  <img src={options.logo.dataUrl} alt="logo" className="h-10 max-w-[6rem] object-contain bg-slate-950 rounded" />
+                )}
+                <button
+                  type="button"
+                  onClick={() => logoInputRef.current?.click()}
+                  disabled={disabled}
+                  className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-medium text-slate-400 hover:text-indigo-300 hover:border-indigo-500/50 disabled:opacity-50"
+                >
+                  {options.logo ? 'Replace logo' : 'Choose PNG or JPEG'}
+                </button>
+              </div>
+              {logoError && <p className="text-xs text-red-400">{logoError}</p>}
+
+              <label className="flex justify-between items-center text-sm">
+                <span className="text-slate-400">Width (mm)</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={options.logoWidthMm}
+                  onChange={e => update('logoWidthMm', Math.max(1, Number(e.target.value) || 1))}
+                  disabled={disabled}
+                  className={numberClass}
+                />
+              </label>
+            </>
+          )}
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Opacity</span>
+            <span className="flex items-center space-x-2">
+              <input
+                type="range"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={options.opacity}
+                onChange={e => update('opacity', Number(e.target.value))}
+                disabled={disabled}
+                className="w-28 accent-indigo-500"
+              />
+              <span className="font-mono text-xs w-8 text-right">{Math.round(options.opacity * 100)}</span>
+            </span>
+          </label>
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Rotation (°)</span>
+            <input
+              type="number"
+              min={-180}
+              max={180}
+              step={15}
+              value={options.rotation}
+              onChange={e => update('rotation', Number(e.target.value) || 0)}
+              disabled={disabled}
+              className={numberClass}
+            />
+          </label>
+
+          <label className="flex justify-between items-center text-sm">
+            <span className="text-slate-400">Position</span>
+            <select
+              value={options.position}
+              onChange={e => update('position', e.target.value as StampPosition)}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {(Object.keys(POSITION_LABELS) as StampPosition[]).map(position => (
+                <option key={position} value={position}>{POSITION_LABELS[position]}</option>
+              ))}
+            </select>
+          </label>
+
+          {options.position !== 'center' && (
+            <label className="flex justify-between items-center text-sm">
+              <span className="text-slate-400">Margin (mm)</span>
+              <input
+                type="number"
+                min={0}
+                value={options.marginMm}
+                onChange={e => update('marginMm', Math.max(0, Number(e.target.value) || 0))}
+                disabled={disabled}
+                className={numberClass}
+              />
+            </label>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StampSettings;
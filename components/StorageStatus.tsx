@@ -0,0 +1,48 @@
+import React from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { StorageUsage } from '../utils/persistence';
+import { formatBytes } from '../utils/format';
+
+interface StorageStatusProps {
+  usage: StorageUsage;
+  onPurge: () => void;
+  disabled?: boolean;
+}
+
+const StorageStatus: React.FC<StorageStatusProps> = ({ usage, onPurge, disabled }) => {
+  const percent = usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="flex items-center space-x-1.5 text-xs font-semibold text-indigo-400 uppercase">
+          <Database size={12} />
+          <span>Saved in browser</span>
+        </span>
+        <span className="text-xs font-mono text-slate-400">
+          {formatBytes(usage.usage)}
+          {usage.quota > 0 && <span className="text-slate-600"> / {formatBytes(usage.quota)}</span>}
+        </span>
+      </div>
+      {usage.quota > 0 && (
+        <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${percent > 80 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={onPurge}
+        disabled={disabled}
+        className="w-full mt-1 py-1.5 px-3 border border-slate-700 hover:border-red-500/50 hover:bg-red-500/10 text-slate-400 hover:text-red-400 rounded-lg text-xs font-medium transition-colors flex items-center justify-center space-x-1.5 disabled:opacity-50"
+      >
+        <Trash2 size={12} />
+        <span>Purge saved data</span>
+      </button>
+    </div>
+  );
+};
+
+export default StorageStatus;
@@ -0,0 +1,79 @@
+import { ConversionOptions } from './types';
+
+// Lowest JPEG quality for optimized images, whether set in the UI, a preset file or the CLI
+export const MIN_OPTIMIZE_QUALITY = 0.4;
+
+export const DEFAULT_OPTIONS: ConversionOptions = {
+  input: {
+    rasterStrategy: 'png',
+    jpegQuality: 0.92,
+  },
+  optimize: {
+    enabled: false,
+    maxLongEdge: 3000,
+    targetDpi: 150,
+    jpegQuality: 0.8,
+    colorMode: 'color',
+    targetSizeMb: 0,
+  },
+  ocr: {
+    enabled: false,
+    languages: ['eng'],
+  },
+  cleanup: {
+    enabled: false,
+    perspective: true,
+    deskew: true,
+    cropBorders: true,
+    enhance: 'none',
+  },
+  layout: {
+    pageSize: 'image',
+    orientation: 'auto',
+    marginMm: 10,
+    placement: 'fit',
+    dpi: 300,
+    useImageDpi: false,
+  },
+  output: {
+    mode: 'separate',
+    grouping: 'all',
+    groupSize: 50,
+  },
+  metadata: {
+    title: '{name}',
+    author: '',
+    subject: '',
+    keywords: '',
+    bookmarks: true,
+    pageLabels: 'none',
+    pageLabelPrefix: '',
+  },
+  stamp: {
+    enabled: false,
+    kind: 'text',
+    text: 'CONFIDENTIAL',
+    fontSize: 48,
+    color: '#dc2626',
+    opacity: 0.3,
+    rotation: 45,
+    position: 'center',
+    marginMm: 10,
+    logoWidthMm: 40,
+  },
+  security: {
+    enabled: false,
+    userPassword: '',
+    ownerPassword: '',
+    permissions: ['print', 'copy', 'modify'],
+  },
+  export: {
+    nameTemplate: '{name}',
+    zipName: 'converted_pdfs',
+    folderName: 'converted_pdfs',
+    preserveFolders: false,
+    splitSizeMb: 0,
+    saveToFolder: false,
+    releaseSaved: false,
+  },
+};
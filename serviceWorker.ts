@@ -0,0 +1,157 @@
+/**
+ * Service worker: keeps the built app available offline and receives images shared from other apps.
+ * Built as its own entry into sw.js (see vite.config.ts), which also fills in the precache list.
+ * It must not import anything, or the build would split shared code into a chunk it can't load.
+ */
+
+// The service worker parts of the webworker lib clash with the DOM lib, so only what's used is declared
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Response | Promise<Response>): void;
+}
+
+interface ServiceWorkerScope {
+  registration: ServiceWorkerRegistration;
+  skipWaiting(): Promise<void>;
+  clients: { claim(): Promise<void> };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+}
+
+// Replaced at build time
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __BUILD_ID__: string;
+
+const sw = self as unknown as ServiceWorkerScope;
+
+const PRECACHE_PREFIX = 'batchsnap-precache-';
+const PRECACHE = `${PRECACHE_PREFIX}${__BUILD_ID__}`;
+// Assets fetched on first use (OCR engines and language models) and the CDN styles and fonts
+const RUNTIME_CACHE = 'batchsnap-runtime';
+
+// Shared files wait here until the page picks them up; names must match utils/pwa.ts
+const SHARE_INBOX = 'batchsnap-share-inbox';
+const SHARE_TARGET_PATH = 'share-target';
+const SHARED_PARAM = 'shared';
+
+// Hosts the page loads its styles and fonts from
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+// The styles and font sheet index.html links to; keep in step with it
+const CDN_STYLES = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap',
+];
+
+const scopeUrl = (path: string) => new URL(path, sw.registration.scope).href;
+
+/**
+ * Caches the CDN styles and the fonts their sheets point to. The first load happens before this
+ * worker controls the page, so without this a page opened offline after one visit has no styles.
+ * A CDN that can't be reached doesn't stop the install; the fetch handler fills the cache later.
+ */
+const precacheStyles = async () => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  await Promise.all(CDN_STYLES.map(async url => {
+    const response = await fetch(url);
+    if (!response.ok) return;
+    await cache.put(url, response.clone());
+    if (!response.headers.get('Content-Type')?.includes('text/css')) return;
+    const fonts = [...(await response.text()).matchAll(/url\((https:\/\/fonts\.gstatic\.com\/[^)]+)\)/g)].map(m => m[1]);
+    await cache.addAll(fonts);
+  })).catch(error => console.warn('Could not cache the styles for offline use', error));
+};
+
+sw.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(PRECACHE)
+      .then(cache => cache.addAll(__PRECACHE_MANIFEST__.map(scopeUrl)))
+      .then(precacheStyles)
+      .then(() => sw.skipWaiting())
+  );
+});
+
+// Drops the previous build's files; the runtime cache is kept, as OCR assets rarely change
+sw.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith(PRECACHE_PREFIX) && key !== PRECACHE).map(key => caches.delete(key))
+      ))
+      .then(() => sw.clients.claim())
+  );
+});
+
+/**
+ * Stores images shared to the app, then sends the browser to the page, which collects them.
+ */
+const receiveShare = async (request: Request): Promise<Response> => {
+  const data = await request.formData();
+  const files = data.getAll('images').filter((value): value is File => value instanceof File);
+  const inbox = await caches.open(SHARE_INBOX);
+  const batch = Date.now();
+  await Promise.all(files.map((file, i) =>
+    inbox.put(scopeUrl(`${SHARE_INBOX}/${batch}-${String(i).padStart(4, '0')}`), new Response(file, {
+      headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) },
+    }))
+  ));
+  return Response.redirect(scopeUrl(`./?${SHARED_PARAM}=1`), 303);
+};
+
+// Pages come from the network when it's there, so a new build shows up on the next load
+const networkFirst = async (request: Request): Promise<Response> => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match(scopeUrl('./'));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Build files have hashed names, so a cached copy is always current
+const cacheFirst = async (request: Request): Promise<Response> => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// CDN responses are opaque, so whatever comes back is kept and refreshed in the background
+const staleWhileRevalidate = async (request: Request): Promise<Response> => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const fresh = fetch(request).then(async response => {
+    await cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    fresh.catch(() => undefined);
+    return cached;
+  }
+  return fresh;
+};
+
+sw.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && url.href === scopeUrl(SHARE_TARGET_PATH)) {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (url.origin === location.origin) {
+    event.respondWith(request.mode === 'navigate' ? networkFirst(request) : cacheFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionOptions } from '../types';
+import { DEFAULT_OPTIONS } from '../constants';
+import { parseCommandLine, toOptions, UsageError } from '../cli/options';
+
+const optionsFor = (args: string[], base: ConversionOptions = DEFAULT_OPTIONS) =>
+  toOptions(parseCommandLine(['convert', 'scans', '-o', 'out', ...args]).values, base);
+
+// As a preset exported from the app with protection on: the passwords are always left out
+const PROTECTED_PRESET: ConversionOptions = {
+  ...DEFAULT_OPTIONS,
+  security: { ...DEFAULT_OPTIONS.security, enabled: true, permissions: ['print'] },
+};
+
+describe('toOptions', () => {
+  it('starts from the base options and applies the flags over them', () => {
+    const options = optionsFor(['--merge', '--page', 'a4', '--margin', '5']);
+    expect(options.output.mode).toBe('merge');
+    expect(options.layout).toMatchObject({ pageSize: 'a4', marginMm: 5 });
+    expect(options.security.enabled).toBe(false);
+    expect(options.layout.useImageDpi).toBe(false);
+    expect(optionsFor(['--image-dpi']).layout.useImageDpi).toBe(true);
+  });
+
+  it('rejects values outside what the app allows', () => {
+    expect(() => optionsFor(['--page', 'a3'])).toThrow(UsageError);
+    expect(() => optionsFor(['--quality', '2'])).toThrow(/--quality must be a number/);
+  });
+
+  it('refuses to protect PDFs without a password', () => {
+    expect(() => optionsFor([], PROTECTED_PRESET)).toThrow(UsageError);
+    expect(() => optionsFor(['--deny', 'copy'])).toThrow(/--password or --owner-password/);
+  });
+
+  it('protects PDFs from a preset once a password is given', () => {
+    const options = optionsFor(['--password', 'secret'], PROTECTED_PRESET);
+    expect(options.security).toEqual({ enabled: true, userPassword: 'secret', ownerPassword: '', permissions: ['print'] });
+    expect(optionsFor(['--owner-password', 'admin', '--deny', 'modify']).security).toMatchObject({
+      enabled: true,
+      ownerPassword: 'admin',
+      permissions: ['print', 'copy'],
+    });
+  });
+});
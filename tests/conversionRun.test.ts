@@ -0,0 +1,357 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionOptions, ConversionStatus, FileData, OutputOptions, ProcessingStats } from '../types';
+import { DEFAULT_OPTIONS } from '../constants';
+import { ConversionError, getCrashDiagnosis } from '../utils/diagnostics';
+import { QueueRun, RunPool, runQueue, selectQueue } from '../utils/conversionRun';
+import { openOutputFolder } from '../utils/exportTarget';
+import { finishRun, recordOutcome, startRun } from '../utils/runStats';
+import { PoolInput } from '../utils/workerPool';
+import { createMemoryFolder } from './fixtures';
+
+// How the fake pool treats a file, by name: converts it, fails to, loses its worker, or never finishes
+type Behaviour = 'ok' | 'fail' | 'crash' | 'hang';
+
+const abortError = () => new DOMException('Conversion cancelled', 'AbortError');
+
+// Settles on the next turn of the event loop, like a worker reply, unless the signal aborts first
+const workerReply = (signal?: AbortSignal, hang = false) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  signal?.addEventListener('abort', () => reject(abortError()));
+  if (!hang) setTimeout(resolve, 0);
+});
+
+const settle = async (input: PoolInput, behaviour: Behaviour, signal?: AbortSignal) => {
+  await workerReply(signal, behaviour === 'hang');
+  if (behaviour === 'fail') throw new ConversionError({ category: 'unsupported', message: `Can't read ${input.name}` });
+  if (behaviour === 'crash') throw new ConversionError(getCrashDiagnosis('Worker exited'));
+};
+
+const fakePool = (behaviours: Record<string, Behaviour> = {}) => {
+  const started: string[] = [];
+  // Files cleaned up and not yet converted, and the most there were at once
+  const prepared = new Set<string>();
+  let mostPrepared = 0;
+  let paused = false;
+  const resumeWaiters: (() => void)[] = [];
+
+  const pool: RunPool = {
+    size: 2,
+    convert: async (input, _options, job = {}) => {
+      job.onStart?.();
+      started.push(input.name);
+      try {
+        await settle(input, behaviours[input.name] ?? 'ok', job.signal);
+      } finally {
+        prepared.delete(input.name);
+      }
+      return { pdfBlob: new Blob([`%PDF ${input.name}`]), width: 100, height: 50, imageBytes: 10 };
+    },
+    merge: async (inputs, _options, job = {}) => {
+      job.onStart?.();
+      let pages = 0;
+      for (const [index, input] of inputs.entries()) {
+        started.push(input.name);
+        try {
+          await settle(input, behaviours[input.name] ?? 'ok', job.signal);
+          pages++;
+          job.onPage?.(index, undefined, { width: 100, height: 50, imageBytes: 10 });
+        } catch (err) {
+          // Like the worker, a bad page is skipped but a crash or cancel ends the job
+          if (!(err instanceof ConversionError) || err.diagnosis.category === 'crashed') throw err;
+          job.onPage?.(index, err);
+        }
+      }
+      return pages ? new Blob([`%PDF ${pages} pages`]) : null;
+    },
+    cleanup: async (input, _options, job = {}) => {
+      prepared.add(input.name);
+      mostPrepared = Math.max(mostPrepared, prepared.size);
+      await workerReply(job.signal);
+      return input.file;
+    },
+    whenResumed: async () => {
+      while (paused) await new Promise<void>(resolve => resumeWaiters.push(resolve));
+    },
+  };
+  return {
+    pool,
+    started,
+    getMostPrepared: () => mostPrepared,
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      resumeWaiters.splice(0).forEach(resolve => resolve());
+    },
+  };
+};
+
+let nextId = 0;
+const fileData = (name: string, status = ConversionStatus.IDLE): FileData => ({
+  id: `file-${++nextId}`,
+  file: new File(['image'], name, { type: 'image/jpeg' }),
+  previewUrl: '',
+  status,
+  format: 'jpeg',
+});
+
+const withOutput = (output: Partial<OutputOptions>): ConversionOptions => ({
+  ...DEFAULT_OPTIONS,
+  output: { ...DEFAULT_OPTIONS.output, ...output },
+});
+
+// Drives a run the way App does, keeping file state and stats from the callbacks
+const startQueue = (
+  files: FileData[],
+  options: ConversionOptions,
+  pool: RunPool,
+  { ids, ...extra }: { ids?: string[] } & Partial<QueueRun> = {}
+) => {
+  const queue = selectQueue(files, options, ids);
+  const state = new Map(files.map(f => [f.id, f]));
+  const controllers = new Map<string, AbortController>();
+  let stats: ProcessingStats = startRun(queue.length, 0);
+
+  const result = runQueue({
+    files,
+    queue,
+    options,
+    pool,
+    createSignal: key => {
+      const controller = new AbortController();
+      controllers.set(key, controller);
+      return controller.signal;
+    },
+    onUpdate: (id, updates) => state.set(id, { ...state.get(id)!, ...updates }),
+    onOutcome: outcome => {
+      stats = recordOutcome(stats, outcome);
+    },
+    ...extra,
+  });
+
+  return {
+    queue,
+    controllers,
+    result,
+    statusOf: (file: FileData) => state.get(file.id)!.status,
+    fileOf: (file: FileData) => state.get(file.id)!,
+    getStats: () => finishRun(stats, 1),
+    // The files as they stand, for a follow-up run
+    current: () => files.map(f => state.get(f.id)!),
+  };
+};
+
+describe('runQueue with separate PDFs', () => {
+  it('records each file as done or failed, with a diagnosis for failures and crashes', async () => {
+    const files = [fileData('a.jpg'), fileData('bad.jpg'), fileData('lost.jpg'), fileData('d.jpg')];
+    const { pool } = fakePool({ 'bad.jpg': 'fail', 'lost.jpg': 'crash' });
+    const run = startQueue(files, DEFAULT_OPTIONS, pool);
+    await run.result;
+
+    expect(files.map(run.statusOf)).toEqual([
+      ConversionStatus.COMPLETED, ConversionStatus.ERROR, ConversionStatus.ERROR, ConversionStatus.COMPLETED,
+    ]);
+    expect(run.fileOf(files[0])).toMatchObject({ width: 100, height: 50, outputSize: '%PDF a.jpg'.length });
+    expect(run.fileOf(files[0]).pdfBlob).toBeInstanceOf(Blob);
+    expect(run.fileOf(files[1])).toMatchObject({ errorCategory: 'unsupported', error: "Can't read bad.jpg" });
+    expect(run.fileOf(files[2])).toMatchObject({ errorCategory: 'crashed', errorDetail: 'Worker exited' });
+    expect(run.getStats()).toMatchObject({ total: 4, processed: 4, success: 2, failed: 2, cancelled: 0 });
+  });
+
+  it('cancels one file while the others finish', async () => {
+    const files = [fileData('a.jpg'), fileData('stuck.jpg'), fileData('c.jpg')];
+    const { pool } = fakePool({ 'stuck.jpg': 'hang' });
+    const run = startQueue(files, DEFAULT_OPTIONS, pool);
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(run.statusOf(files[1])).toBe(ConversionStatus.PROCESSING);
+    run.controllers.get(files[1].id)!.abort();
+    await run.result;
+
+    expect(files.map(run.statusOf)).toEqual([
+      ConversionStatus.COMPLETED, ConversionStatus.CANCELLED, ConversionStatus.COMPLETED,
+    ]);
+    expect(run.fileOf(files[1]).error).toBeUndefined();
+    expect(run.getStats()).toMatchObject({ processed: 3, success: 2, failed: 0, cancelled: 1 });
+  });
+
+  it('retries only the files asked for, or every runnable one by default', async () => {
+    const files = [
+      fileData('done.jpg', ConversionStatus.COMPLETED),
+      fileData('failed.jpg', ConversionStatus.ERROR),
+      fileData('cancelled.jpg', ConversionStatus.CANCELLED),
+      fileData('notes.txt', ConversionStatus.UNSUPPORTED),
+    ];
+
+    expect(selectQueue(files, DEFAULT_OPTIONS).map(f => f.file.name)).toEqual(['failed.jpg', 'cancelled.jpg']);
+    expect(selectQueue(files, DEFAULT_OPTIONS, [files[0].id, files[3].id]).map(f => f.file.name)).toEqual(['done.jpg']);
+
+    const { pool, started } = fakePool();
+    const run = startQueue(files, DEFAULT_OPTIONS, pool, { ids: [files[1].id] });
+    await run.result;
+
+    expect(started).toEqual(['failed.jpg']);
+    expect(files.map(run.statusOf)).toEqual([
+      ConversionStatus.COMPLETED, ConversionStatus.COMPLETED, ConversionStatus.CANCELLED, ConversionStatus.UNSUPPORTED,
+    ]);
+    expect(run.getStats()).toMatchObject({ total: 1, processed: 1, success: 1 });
+  });
+
+  it('prepares no more files at once than the pool has workers', async () => {
+    const files = ['a', 'b', 'c', 'd', 'e'].map(name => fileData(`${name}.jpg`));
+    const { pool, getMostPrepared } = fakePool();
+    const options = { ...DEFAULT_OPTIONS, cleanup: { ...DEFAULT_OPTIONS.cleanup, enabled: true } };
+    const run = startQueue(files, options, pool);
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    // The rest wait their turn, and can still be cancelled while they do
+    expect(files.map(run.statusOf)).toEqual([
+      ConversionStatus.PROCESSING, ConversionStatus.PROCESSING,
+      ConversionStatus.IDLE, ConversionStatus.IDLE, ConversionStatus.IDLE,
+    ]);
+    run.controllers.get(files[4].id)!.abort();
+    await run.result;
+
+    expect(getMostPrepared()).toBe(pool.size);
+    expect(files.map(run.statusOf)).toEqual([
+      ...Array(4).fill(ConversionStatus.COMPLETED), ConversionStatus.CANCELLED,
+    ]);
+  });
+
+  it('holds OCR while the run is paused', async () => {
+    const files = [fileData('a.jpg'), fileData('b.jpg')];
+    const { pool, pause, resume } = fakePool();
+    const recognized: string[] = [];
+    const recognize: QueueRun['recognize'] = async image => {
+      recognized.push((image as File).name);
+      return { words: [], confidence: 90, width: 100, height: 50 };
+    };
+    const options = { ...DEFAULT_OPTIONS, ocr: { ...DEFAULT_OPTIONS.ocr, enabled: true } };
+
+    pause();
+    const run = startQueue(files, options, pool, { recognize });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(recognized).toEqual([]);
+
+    resume();
+    await run.result;
+    expect(recognized).toEqual(['a.jpg', 'b.jpg']);
+    expect(files.map(run.statusOf)).toEqual([ConversionStatus.COMPLETED, ConversionStatus.COMPLETED]);
+  });
+
+  it('still converts a file whose cleanup or OCR failed, and records what was skipped', async () => {
+    const files = [fileData('a.jpg')];
+    const { pool } = fakePool();
+    pool.cleanup = async () => {
+      throw new ConversionError({ category: 'out-of-memory', message: 'Ran out of memory', detail: 'Allocation failed' });
+    };
+    const recognize: QueueRun['recognize'] = async () => {
+      throw new Error('Language data missing');
+    };
+    const options = {
+      ...DEFAULT_OPTIONS,
+      cleanup: { ...DEFAULT_OPTIONS.cleanup, enabled: true },
+      ocr: { ...DEFAULT_OPTIONS.ocr, enabled: true },
+    };
+    const run = startQueue(files, options, pool, { recognize });
+    await run.result;
+
+    expect(run.statusOf(files[0])).toBe(ConversionStatus.COMPLETED);
+    expect(run.fileOf(files[0]).warnings).toEqual([
+      expect.objectContaining({ step: 'cleanup', category: 'out-of-memory', detail: 'Allocation failed' }),
+      expect.objectContaining({ step: 'ocr', category: 'unknown', detail: 'Language data missing' }),
+    ]);
+    expect(run.getStats()).toMatchObject({ success: 1, failed: 0 });
+  });
+});
+
+describe('runQueue with merged documents', () => {
+  it('rebuilds every document, whatever was asked to retry', () => {
+    const files = [fileData('a.jpg', ConversionStatus.COMPLETED), fileData('b.jpg', ConversionStatus.ERROR)];
+    expect(selectQueue(files, withOutput({ mode: 'merge' }), [files[1].id])).toEqual(files);
+  });
+
+  it('reports each page and keeps only the documents that were made', async () => {
+    const files = ['a', 'bad', 'c', 'd', 'lost', 'f', 'g'].map(name => fileData(`${name}.jpg`));
+    const { pool } = fakePool({ 'bad.jpg': 'fail', 'lost.jpg': 'crash' });
+    const run = startQueue(files, withOutput({ mode: 'merge', grouping: 'every-n', groupSize: 3 }), pool);
+    const { mergedOutputs, saveFailures } = await run.result;
+
+    // The bad page is skipped; the crash loses its own page and the one after it
+    expect(files.map(run.statusOf)).toEqual([
+      ConversionStatus.COMPLETED, ConversionStatus.ERROR, ConversionStatus.COMPLETED,
+      ConversionStatus.COMPLETED, ConversionStatus.ERROR, ConversionStatus.ERROR,
+      ConversionStatus.COMPLETED,
+    ]);
+    expect(run.fileOf(files[1]).errorCategory).toBe('unsupported');
+    expect(run.fileOf(files[4]).errorCategory).toBe('crashed');
+    expect(run.fileOf(files[5]).errorCategory).toBe('crashed');
+    // Merged pages have no PDF of their own
+    expect(run.fileOf(files[0]).pdfBlob).toBeUndefined();
+
+    expect(mergedOutputs!.map(o => o.fileIds)).toEqual([
+      files.slice(0, 3).map(f => f.id),
+      files.slice(6).map(f => f.id),
+    ]);
+    expect(saveFailures).toBe(0);
+    expect(run.getStats()).toMatchObject({ total: 7, processed: 7, success: 4, failed: 3, cancelled: 0 });
+  });
+
+  it('marks the pages not yet added as cancelled when a document is cancelled', async () => {
+    const files = [fileData('a.jpg'), fileData('stuck.jpg'), fileData('c.jpg')];
+    const { pool } = fakePool({ 'stuck.jpg': 'hang' });
+    const run = startQueue(files, withOutput({ mode: 'merge' }), pool);
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    run.controllers.get('group:0')!.abort();
+    const { mergedOutputs } = await run.result;
+
+    expect(files.map(run.statusOf)).toEqual([
+      ConversionStatus.COMPLETED, ConversionStatus.CANCELLED, ConversionStatus.CANCELLED,
+    ]);
+    expect(mergedOutputs).toEqual([]);
+    expect(run.getStats()).toMatchObject({ processed: 3, success: 1, cancelled: 2 });
+  });
+});
+
+describe('runQueue saving to a folder', () => {
+  const numbered = (options: ConversionOptions) =>
+    ({ ...options, export: { ...options.export, nameTemplate: '{index:000}', folderName: '' } });
+
+  it('numbers PDFs like the ZIP export and never overwrites another on retry', async () => {
+    const { folder, files: saved } = createMemoryFolder();
+    const output = openOutputFolder(folder);
+    const files = [fileData('a.jpg'), fileData('b.jpg'), fileData('c.jpg')];
+
+    const first = startQueue(files, numbered(DEFAULT_OPTIONS), fakePool({ 'b.jpg': 'fail' }).pool, { saveToFolder: output.save });
+    await first.result;
+    expect(first.current().map(f => f.savedTo)).toEqual(['001.pdf', undefined, '002.pdf']);
+
+    const retried = first.current();
+    const retry = startQueue(retried, numbered(DEFAULT_OPTIONS), fakePool().pool, { ids: [files[1].id], saveToFolder: output.save });
+    await retry.result;
+
+    // b is second in the list, but c already has that name
+    expect(retry.fileOf(files[1]).savedTo).toBe('002 (2).pdf');
+    expect(Object.fromEntries(saved)).toEqual({
+      '001.pdf': '%PDF a.jpg',
+      '002.pdf': '%PDF c.jpg',
+      '002 (2).pdf': '%PDF b.jpg',
+    });
+  });
+
+  it('numbers merged documents among the ones that were made', async () => {
+    const { folder, files: saved } = createMemoryFolder();
+    const files = ['a', 'lost', 'c', 'd'].map(name => fileData(`${name}.jpg`));
+    const options = numbered(withOutput({ mode: 'merge', grouping: 'every-n', groupSize: 1 }));
+    const run = startQueue(files, { ...options, export: { ...options.export, releaseSaved: true } },
+      fakePool({ 'lost.jpg': 'crash' }).pool, { saveToFolder: openOutputFolder(folder).save });
+    const { mergedOutputs, saveFailures } = await run.result;
+
+    expect([...saved.keys()]).toEqual(['001.pdf', '002.pdf', '003.pdf']);
+    // Saved documents are released from memory
+    expect(mergedOutputs).toEqual([]);
+    expect(saveFailures).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionError, diagnoseError, getCrashDiagnosis, getDiagnosis } from '../utils/diagnostics';
+import { convertImageToPDF } from '../utils/pdfConverter';
+import { DEFAULT_OPTIONS } from '../constants';
+import { BROKEN_JPEG, makeJpeg, makePng } from './fixtures';
+
+const DECODE_ERROR = new Error('Unsupported image type');
+
+// Rewrites the baseline frame header (SOF0) of a test JPEG
+const patchFrame = (jpeg: Uint8Array, patch: (bytes: Uint8Array, sof: number) => void) => {
+  const bytes = jpeg.slice();
+  const sof = bytes.findIndex((b, i) => b === 0xff && bytes[i + 1] === 0xc0);
+  patch(bytes, sof);
+  return bytes;
+};
+
+describe('diagnoseError', () => {
+  it('spots files that were cut short', () => {
+    const jpeg = makeJpeg(64, 64);
+    const png = makePng(64, 64);
+
+    expect(diagnoseError(DECODE_ERROR, jpeg.slice(0, jpeg.length - 100)).category).toBe('truncated');
+    expect(diagnoseError(DECODE_ERROR, png.slice(0, png.length - 100)).category).toBe('truncated');
+    expect(diagnoseError(DECODE_ERROR, BROKEN_JPEG).category).toBe('truncated');
+  });
+
+  it('names the JPEG flavour it could not handle', () => {
+    const jpeg = makeJpeg(16, 16);
+    const cmyk = patchFrame(jpeg, (bytes, sof) => { bytes[sof + 9] = 4; });
+    const progressive = patchFrame(jpeg, (bytes, sof) => { bytes[sof + 1] = 0xc2; });
+    const twelveBit = patchFrame(jpeg, (bytes, sof) => { bytes[sof + 4] = 12; });
+
+    expect(diagnoseError(DECODE_ERROR, cmyk)).toMatchObject({ category: 'unsupported-variant', message: expect.stringMatching(/CMYK/) });
+    expect(diagnoseError(DECODE_ERROR, progressive).message).toMatch(/progressive/);
+    expect(diagnoseError(DECODE_ERROR, twelveBit).message).toMatch(/12-bit/);
+  });
+
+  it('falls back to a decode error for complete, ordinary images', () => {
+    expect(diagnoseError(DECODE_ERROR, makeJpeg(16, 16))).toEqual({
+      category: 'unreadable',
+      message: expect.any(String),
+      detail: 'Unsupported image type',
+    });
+    expect(diagnoseError(new Error('Something else'), makeJpeg(16, 16)).category).toBe('unknown');
+  });
+
+  it('recognises running out of memory before looking at the file', () => {
+    expect(diagnoseError(new RangeError('Array buffer allocation failed'), BROKEN_JPEG).category).toBe('out-of-memory');
+    expect(diagnoseError(new Error('Out of memory')).category).toBe('out-of-memory');
+  });
+
+  it('reports files that are not images at all as unsupported', () => {
+    const text = new TextEncoder().encode('hello');
+    expect(diagnoseError(DECODE_ERROR, text)).toMatchObject({ category: 'unsupported', message: expect.stringMatching(/Not a supported image/) });
+    // Starts like a BMP, but has no bitmap header after the file header
+    const bmText = new TextEncoder().encode('BMI index, weight and height of each participant');
+    expect(diagnoseError(DECODE_ERROR, bmText).category).toBe('unsupported');
+  });
+
+  it('tells a file that went away from a damaged one', () => {
+    expect(diagnoseError(new DOMException('gone', 'NotReadableError')).category).toBe('unreadable');
+  });
+
+  it('explains a real failed conversion', async () => {
+    const jpeg = makeJpeg(64, 64);
+    const cut = jpeg.slice(0, 200);
+    const error = await convertImageToPDF({ name: 'cut.jpg', bytes: cut, format: 'jpeg' }, DEFAULT_OPTIONS).catch(e => e);
+    expect(diagnoseError(error, cut).category).toBe('truncated');
+  });
+});
+
+describe('getDiagnosis', () => {
+  it('keeps the diagnosis made where the error happened', () => {
+    const crash = getCrashDiagnosis('Worker exited');
+    expect(getDiagnosis(new ConversionError(crash))).toBe(crash);
+    expect(getDiagnosis(new Error('Invalid JPEG')).category).toBe('unreadable');
+  });
+});
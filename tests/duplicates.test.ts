@@ -0,0 +1,101 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import { ConversionStatus, FileData, ImageFormat } from '../types';
+import { findDuplicateGroups, hashImage, hashImages, NEAR_DUPLICATE_DISTANCE } from '../utils/duplicates';
+import { BROKEN_JPEG, makeJpeg, makePng, withOrientation } from './fixtures';
+
+let nextId = 0;
+const fileData = async (name: string, bytes: Uint8Array, format: ImageFormat = 'jpeg', extra: Partial<FileData> = {}): Promise<FileData> => {
+  const file = new File([bytes], name);
+  return {
+    id: `file-${++nextId}`,
+    file,
+    previewUrl: '',
+    status: ConversionStatus.IDLE,
+    format,
+    ...(await hashImage(file)),
+    ...extra,
+  };
+};
+
+// A picture unlike the fixtures' gradients: light and dark vertical bands
+const makeStripes = (width: number, height: number) => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  for (let x = 0; x < width; x += 40) {
+    ctx.fillStyle = (x / 40) % 2 ? '#202020' : '#e0e0e0';
+    ctx.fillRect(x, 0, 40, height);
+  }
+  return new Uint8Array(canvas.toBuffer('image/jpeg'));
+};
+
+const bitsApart = (a: string, b: string) =>
+  [...(BigInt(`0x${a}`) ^ BigInt(`0x${b}`)).toString(2)].filter(bit => bit === '1').length;
+
+const copiesOf = (files: FileData[]) =>
+  findDuplicateGroups(files).map(group => ({
+    original: group.original.file.name,
+    copies: group.copies.map(copy => [copy.file.file.name, copy.exact]),
+  }));
+
+describe('hashImage', () => {
+  it('gives re-encoded and resized copies nearby perceptual hashes', async () => {
+    const photo = await hashImage(new Blob([makeJpeg(400, 300)]));
+    const asPng = await hashImage(new Blob([makePng(400, 300)]));
+    const smaller = await hashImage(new Blob([makeJpeg(200, 150)]));
+
+    expect(photo.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(asPng.contentHash).not.toBe(photo.contentHash);
+    expect(bitsApart(photo.perceptualHash!, asPng.perceptualHash!)).toBeLessThanOrEqual(NEAR_DUPLICATE_DISTANCE);
+    expect(bitsApart(photo.perceptualHash!, smaller.perceptualHash!)).toBeLessThanOrEqual(NEAR_DUPLICATE_DISTANCE);
+  });
+
+  it('hashes the upright image, so a rotated copy is a different picture', async () => {
+    const photo = await hashImage(new Blob([makeJpeg(400, 300)]));
+    const turned = await hashImage(new Blob([withOrientation(makeJpeg(400, 300), 6)]));
+    expect(bitsApart(photo.perceptualHash!, turned.perceptualHash!)).toBeGreaterThan(NEAR_DUPLICATE_DISTANCE);
+  });
+
+  it('still hashes the bytes of an image it cannot decode', async () => {
+    const hashes = await hashImage(new Blob([BROKEN_JPEG]));
+    expect(hashes.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashes.perceptualHash).toBeUndefined();
+  });
+
+  it('reports every file hashed', async () => {
+    const files = await Promise.all([1, 2, 3, 4, 5].map(seed => fileData(`${seed}.jpg`, makeJpeg(40, 30, seed))));
+    const hashed: string[] = [];
+    await hashImages(files, id => hashed.push(id));
+    expect(hashed.sort()).toEqual(files.map(f => f.id).sort());
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('tells identical copies from near ones and leaves different pictures alone', async () => {
+    const photo = makeJpeg(400, 300);
+    const files = [
+      await fileData('photo.jpg', photo),
+      await fileData('photo copy.jpg', photo),
+      await fileData('photo.png', makePng(400, 300), 'png'),
+      await fileData('photo small.jpg', makeJpeg(200, 150)),
+      await fileData('rotated.jpg', withOrientation(makeJpeg(400, 300), 6)),
+      await fileData('other.jpg', makeStripes(400, 300)),
+    ];
+
+    expect(copiesOf(files)).toEqual([{
+      original: 'photo.jpg',
+      copies: [['photo copy.jpg', true], ['photo.png', false], ['photo small.jpg', false]],
+    }]);
+  });
+
+  it('never lists a kept file or an unsupported one as a copy', async () => {
+    const photo = makeJpeg(100, 80);
+    const files = [
+      await fileData('a.jpg', photo),
+      await fileData('kept.jpg', photo, 'jpeg', { keepDuplicate: true }),
+      await fileData('unsupported.jpg', photo, 'jpeg', { format: undefined }),
+      await fileData('b.jpg', photo),
+    ];
+    expect(copiesOf(files)).toEqual([{ original: 'a.jpg', copies: [['b.jpg', true]] }]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { openOutputFolder } from '../utils/exportTarget';
+import { claimUniquePath } from '../utils/naming';
+import { createMemoryFolder } from './fixtures';
+
+const pdf = (label: string) => new Blob([`%PDF ${label}`]);
+const named = (path: string) => (taken: Set<string>) => claimUniquePath(path, taken);
+
+describe('openOutputFolder', () => {
+  it('gives a PDF saved again its own path back', async () => {
+    const { folder, files } = createMemoryFolder();
+    const output = openOutputFolder(folder);
+
+    expect(await output.save('a', named('scan.pdf'), pdf('first'))).toBe('scan.pdf');
+    expect(await output.save('a', named('scan.pdf'), pdf('second'))).toBe('scan.pdf');
+    expect(Object.fromEntries(files)).toEqual({ 'scan.pdf': '%PDF second' });
+  });
+
+  it('suffixes a name another PDF took earlier in the session, ignoring case', async () => {
+    const { folder, files } = createMemoryFolder();
+    const output = openOutputFolder(folder);
+
+    await output.save('a', named('out/scan.pdf'), pdf('a'));
+    expect(await output.save('b', named('out/SCAN.pdf'), pdf('b'))).toBe('out/SCAN (2).pdf');
+    expect(files.get('out/scan.pdf')).toBe('%PDF a');
+  });
+
+  it('never replaces a file that was in the folder before', async () => {
+    const { folder, files } = createMemoryFolder(new Map([['scan.pdf', 'mine'], ['scan (2).pdf', 'mine too']]));
+    const output = openOutputFolder(folder);
+
+    expect(await output.save('a', named('scan.pdf'), pdf('a'))).toBe('scan (3).pdf');
+    expect(files.get('scan.pdf')).toBe('mine');
+    expect(files.get('scan (2).pdf')).toBe('mine too');
+  });
+
+  it('keeps the old path of a PDF that was renamed from another one', async () => {
+    const { folder } = createMemoryFolder();
+    const output = openOutputFolder(folder);
+
+    await output.save('a', named('first.pdf'), pdf('a'));
+    await output.save('a', named('renamed.pdf'), pdf('a again'));
+    // first.pdf still holds the earlier save
+    expect(await output.save('b', named('first.pdf'), pdf('b'))).toBe('first (2).pdf');
+  });
+});
@@ -0,0 +1,91 @@
+import { createCanvas } from '@napi-rs/canvas';
+
+// Test images are drawn on the fly: a gradient seeded by `seed`, so no two fixtures encode the same
+
+const draw = (width: number, height: number, seed: number) => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${(seed * 67) % 360}, 70%, 60%)`);
+  gradient.addColorStop(1, `hsl(${(seed * 67 + 120) % 360}, 70%, 30%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, Math.ceil(width / 4), Math.ceil(height / 4));
+  return canvas;
+};
+
+const toBytes = (buffer: Buffer) => new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length).slice();
+
+export const makeJpeg = (width: number, height: number, seed = 1) =>
+  toBytes(draw(width, height, seed).toBuffer('image/jpeg'));
+
+export const makePng = (width: number, height: number, seed = 1) =>
+  toBytes(draw(width, height, seed).toBuffer('image/png'));
+
+export const makeWebp = (width: number, height: number, seed = 1) =>
+  toBytes(draw(width, height, seed).toBuffer('image/webp'));
+
+/**
+ * Inserts an EXIF block with the given Orientation right after the JPEG's SOI marker.
+ */
+export const withOrientation = (jpeg: Uint8Array, orientation: number): Uint8Array => {
+  // Big-endian TIFF header and an IFD with the single Orientation entry (SHORT, count 1)
+  const tiff = [0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0, 0, 0, 0, 0];
+  const payload = [...Array.from('Exif\0\0', c => c.charCodeAt(0)), ...tiff];
+  const length = payload.length + 2;
+  return new Uint8Array([...jpeg.subarray(0, 2), 0xff, 0xe1, length >> 8, length & 0xff, ...payload, ...jpeg.subarray(2)]);
+};
+
+/**
+ * Sets the density in the JFIF header the test JPEGs start with, in dots per inch.
+ */
+export const withDensity = (jpeg: Uint8Array, dpi: number): Uint8Array => {
+  const bytes = jpeg.slice();
+  // SOI, then the APP0 marker and length; the density unit and X/Y follow "JFIF\0" and the version
+  bytes.set([1, dpi >> 8, dpi & 0xff, dpi >> 8, dpi & 0xff], 13);
+  return bytes;
+};
+
+// Starts like a JPEG but holds no image
+export const BROKEN_JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46]);
+
+/**
+ * An in-memory stand-in for a folder from showDirectoryPicker. `files` maps each file's path
+ * to its text; folders exist as far as some file is inside them.
+ */
+export const createMemoryFolder = (files = new Map<string, string>()) => {
+  const notFound = () => new DOMException('Not found', 'NotFoundError');
+
+  const directory = (prefix: string): FileSystemDirectoryHandle => ({
+    name: 'out',
+    getDirectoryHandle: async (name: string, options?: { create?: boolean }) => {
+      const path = `${prefix}${name}/`;
+      if (files.has(`${prefix}${name}`)) throw new DOMException('Not a folder', 'TypeMismatchError');
+      if (!options?.create && ![...files.keys()].some(p => p.startsWith(path))) throw notFound();
+      return directory(path);
+    },
+    getFileHandle: async (name: string, options?: { create?: boolean }) => {
+      const path = `${prefix}${name}`;
+      if (!files.has(path)) {
+        if (!options?.create) throw notFound();
+        files.set(path, '');
+      }
+      return {
+        createWritable: async () => {
+          let text = '';
+          return new WritableStream<Uint8Array>({
+            write: chunk => {
+              text += Buffer.from(chunk).toString();
+            },
+            close: () => {
+              files.set(path, text);
+            },
+          });
+        },
+      };
+    },
+  }) as unknown as FileSystemDirectoryHandle;
+
+  return { folder: directory(''), files };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseJpegHeader, withoutOrientation } from '../utils/jpegHeader';
+import { BROKEN_JPEG, makeJpeg, makePng, withOrientation } from './fixtures';
+
+describe('parseJpegHeader', () => {
+  it('reads the stored size and defaults the orientation', () => {
+    expect(parseJpegHeader(makeJpeg(120, 80))).toMatchObject({ width: 120, height: 80, orientation: 1, components: 3 });
+  });
+
+  it('reads the EXIF orientation', () => {
+    expect(parseJpegHeader(withOrientation(makeJpeg(120, 80), 6))).toMatchObject({ width: 120, height: 80, orientation: 6 });
+  });
+
+  it('returns null for anything that is not a complete JPEG header', () => {
+    expect(parseJpegHeader(BROKEN_JPEG)).toBeNull();
+    expect(parseJpegHeader(makePng(4, 4))).toBeNull();
+  });
+});
+
+describe('withoutOrientation', () => {
+  it('resets the orientation in a copy', () => {
+    const rotated = withOrientation(makeJpeg(120, 80), 8);
+    const upright = withoutOrientation(rotated);
+
+    expect(parseJpegHeader(upright)?.orientation).toBe(1);
+    expect(parseJpegHeader(rotated)?.orientation).toBe(8);
+    expect(upright.length).toBe(rotated.length);
+  });
+
+  it('returns the same bytes when there is nothing to reset', () => {
+    const plain = makeJpeg(10, 10);
+    expect(withoutOrientation(plain)).toBe(plain);
+  });
+});
@@ -0,0 +1,120 @@
+import { createHash } from 'node:crypto';
+
+// Just enough of a PDF reader for the documents jsPDF writes: uncompressed object syntax,
+// direct /Length values and no cross-reference streams.
+
+export interface PdfObject {
+  id: number;
+  dict: string;
+  stream?: Uint8Array;
+}
+
+export interface PdfImage {
+  filter?: string;
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface ParsedPdf {
+  objects: PdfObject[];
+  // [x0, y0, x1, y1] of each page, in points
+  mediaBoxes: number[][];
+  images: PdfImage[];
+  // Whole file as a byte-per-character string, for checking what was written
+  text: string;
+}
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length).toString('latin1');
+
+const numberEntry = (dict: string, key: string) => {
+  const match = new RegExp(`/${key}\\s+(\\d+)`).exec(dict);
+  return match ? Number(match[1]) : NaN;
+};
+
+export const parsePdf = (bytes: Uint8Array): ParsedPdf => {
+  const text = latin1(bytes);
+  if (!text.startsWith('%PDF-')) {
+    throw new Error('Not a PDF');
+  }
+
+  const objects: PdfObject[] = [];
+  const header = /(\d+) 0 obj/g;
+  for (let match = header.exec(text); match; match = header.exec(text)) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endobj', start);
+    const streamAt = text.indexOf('stream', start);
+
+    if (streamAt !== -1 && streamAt < end) {
+      const dict = text.slice(start, streamAt);
+      const dataStart = streamAt + 'stream'.length + (text[streamAt + 6] === '\r' ? 2 : 1);
+      const length = numberEntry(dict, 'Length');
+      objects.push({ id: Number(match[1]), dict, stream: bytes.subarray(dataStart, dataStart + length) });
+      header.lastIndex = text.indexOf('endobj', dataStart + length);
+    } else {
+      objects.push({ id: Number(match[1]), dict: text.slice(start, end) });
+      header.lastIndex = end;
+    }
+  }
+
+  const mediaBoxes = objects
+    .filter(o => /\/Type\s*\/Page(?!s)\b/.test(o.dict))
+    .map(o => /\/MediaBox\s*\[([^\]]*)\]/.exec(o.dict)![1].trim().split(/\s+/).map(Number));
+
+  const images = objects
+    .filter(o => /\/Subtype\s*\/Image/.test(o.dict) && o.stream)
+    .map(o => ({
+      filter: /\/Filter\s*\/(\w+)/.exec(o.dict)?.[1],
+      width: numberEntry(o.dict, 'Width'),
+      height: numberEntry(o.dict, 'Height'),
+      data: o.stream!,
+    }));
+
+  return { objects, mediaBoxes, images, text };
+};
+
+export const parsePdfBlob = async (blob: Blob) => parsePdf(new Uint8Array(await blob.arrayBuffer()));
+
+// Padding the standard security handler appends to passwords
+const PASSWORD_PADDING = [
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+];
+
+const fromHex = (hex: string) => Buffer.from(hex.replace(/\s/g, ''), 'hex');
+
+const rc4 = (key: Uint8Array, data: Uint8Array) => {
+  const s = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[n] = data[n] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+};
+
+/**
+ * Decrypts a hex string of object `objectId` in a document jsPDF encrypted with the given user
+ * password (40-bit RC4, revision 2 of the standard security handler).
+ */
+export const decryptHexString = (pdf: ParsedPdf, objectId: number, hex: string, userPassword = '') => {
+  const encrypt = pdf.objects.find(o => /\/Filter\s*\/Standard/.test(o.dict))!.dict;
+  const owner = fromHex(/\/O\s*<([0-9a-fA-F]+)>/.exec(encrypt)![1]);
+  const permissions = Buffer.alloc(4);
+  permissions.writeInt32LE(Number(/\/P\s+(-?\d+)/.exec(encrypt)![1]));
+  const fileId = fromHex(/\/ID\s*\[\s*<([0-9a-fA-F]+)>/.exec(pdf.text)![1]);
+
+  const password = Buffer.from([...Buffer.from(userPassword, 'latin1'), ...PASSWORD_PADDING].slice(0, 32));
+  const fileKey = createHash('md5').update(Buffer.concat([password, owner, permissions, fileId])).digest().subarray(0, 5);
+  const objectKey = createHash('md5')
+    .update(Buffer.concat([fileKey, Buffer.from([objectId & 0xff, (objectId >> 8) & 0xff, objectId >> 16, 0, 0])]))
+    .digest()
+    .subarray(0, 10);
+  return rc4(objectKey, fromHex(hex));
+};
@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionOptions, ImageSource, LayoutOptions, PageInfo } from '../types';
+import { DEFAULT_OPTIONS } from '../constants';
+import { convertImageToPDF, getImageDimensions, mergeImagesToPDF } from '../utils/pdfConverter';
+import { BROKEN_JPEG, makeJpeg, makePng, makeWebp, withDensity, withOrientation } from './fixtures';
+import { decryptHexString, ParsedPdf, parsePdfBlob } from './pdf';
+
+// jsPDF's px unit with the px_scaling hotfix: 96 px per inch, 72 points per inch
+const PT_PER_PX = 0.75;
+const A4_PT = [595.28, 841.89];
+
+const withLayout = (layout: Partial<LayoutOptions>): ConversionOptions => ({
+  ...DEFAULT_OPTIONS,
+  layout: { ...DEFAULT_OPTIONS.layout, ...layout },
+});
+
+const expectBox = (box: number[], width: number, height: number) => {
+  expect(box[0]).toBe(0);
+  expect(box[1]).toBe(0);
+  expect(box[2]).toBeCloseTo(width, 1);
+  expect(box[3]).toBeCloseTo(height, 1);
+};
+
+describe('getImageDimensions', () => {
+  it('reads JPEG and PNG sizes from their headers', async () => {
+    expect(await getImageDimensions(makeJpeg(320, 240), 'JPEG')).toEqual({ width: 320, height: 240 });
+    expect(await getImageDimensions(makePng(17, 33), 'PNG')).toEqual({ width: 17, height: 33 });
+  });
+});
+
+describe('convertImageToPDF', () => {
+  it('embeds the JPEG stream byte for byte', async () => {
+    const bytes = makeJpeg(320, 240);
+    const { pdfBlob } = await convertImageToPDF({ name: 'photo.jpg', bytes, format: 'jpeg' }, DEFAULT_OPTIONS);
+
+    const pdf = await parsePdfBlob(pdfBlob);
+    expect(pdf.images).toHaveLength(1);
+    expect(pdf.images[0].filter).toBe('DCTDecode');
+    expect(Buffer.from(pdf.images[0].data).equals(Buffer.from(bytes))).toBe(true);
+  });
+
+  it('sizes the page to the image with the image page size', async () => {
+    const bytes = makeJpeg(320, 240);
+    const { width, height } = await getImageDimensions(bytes, 'JPEG');
+    const result = await convertImageToPDF({ name: 'photo.jpg', bytes, format: 'jpeg' }, DEFAULT_OPTIONS);
+
+    const pdf = await parsePdfBlob(result.pdfBlob);
+    expect(pdf.mediaBoxes).toHaveLength(1);
+    expectBox(pdf.mediaBoxes[0], width * PT_PER_PX, height * PT_PER_PX);
+    expect(result).toMatchObject({ width, height, imageBytes: bytes.length });
+  });
+
+  it('keeps image-size pages at one pixel per px unit whatever DPI the JPEG declares, unless asked', async () => {
+    const bytes = withDensity(makeJpeg(320, 240), 72);
+    const source: ImageSource = { name: 'photo.jpg', bytes, format: 'jpeg' };
+
+    const plain = await convertImageToPDF(source, DEFAULT_OPTIONS);
+    expectBox((await parsePdfBlob(plain.pdfBlob)).mediaBoxes[0], 320 * PT_PER_PX, 240 * PT_PER_PX);
+
+    // At 72 dpi a pixel is a point
+    const declared = await convertImageToPDF(source, withLayout({ useImageDpi: true }));
+    expectBox((await parsePdfBlob(declared.pdfBlob)).mediaBoxes[0], 320, 240);
+  });
+
+  it('turns the page for EXIF orientation without touching the JPEG stream', async () => {
+    // Orientation 6: stored landscape, shown rotated a quarter turn clockwise
+    const bytes = withOrientation(makeJpeg(320, 240), 6);
+    const result = await convertImageToPDF({ name: 'rotated.jpg', bytes, format: 'jpeg' }, DEFAULT_OPTIONS);
+
+    const pdf = await parsePdfBlob(result.pdfBlob);
+    expectBox(pdf.mediaBoxes[0], 240 * PT_PER_PX, 320 * PT_PER_PX);
+    expect(Buffer.from(pdf.images[0].data).equals(Buffer.from(bytes))).toBe(true);
+    expect(result).toMatchObject({ width: 240, height: 320 });
+  });
+
+  it('applies the user rotation on top of the image', async () => {
+    const bytes = makeJpeg(320, 240);
+    const source: ImageSource = {
+      name: 'photo.jpg',
+      bytes,
+      format: 'jpeg',
+      transform: { rotation: 90, flipH: false, flipV: false },
+    };
+    const pdf = await parsePdfBlob((await convertImageToPDF(source, DEFAULT_OPTIONS)).pdfBlob);
+    expectBox(pdf.mediaBoxes[0], 240 * PT_PER_PX, 320 * PT_PER_PX);
+    expect(Buffer.from(pdf.images[0].data).equals(Buffer.from(bytes))).toBe(true);
+  });
+
+  it('stores PNGs losslessly as Flate at their own size', async () => {
+    const { pdfBlob } = await convertImageToPDF({ name: 'scan.png', bytes: makePng(64, 48), format: 'png' }, DEFAULT_OPTIONS);
+
+    const pdf = await parsePdfBlob(pdfBlob);
+    expect(pdf.images[0]).toMatchObject({ filter: 'FlateDecode', width: 64, height: 48 });
+    expectBox(pdf.mediaBoxes[0], 64 * PT_PER_PX, 48 * PT_PER_PX);
+  });
+
+  it('re-encodes WebP with the chosen raster strategy', async () => {
+    const source: ImageSource = { name: 'web.webp', bytes: makeWebp(50, 40), format: 'webp' };
+
+    const asPng = await parsePdfBlob((await convertImageToPDF(source, DEFAULT_OPTIONS)).pdfBlob);
+    expect(asPng.images[0]).toMatchObject({ filter: 'FlateDecode', width: 50, height: 40 });
+
+    const jpegOptions = { ...DEFAULT_OPTIONS, input: { ...DEFAULT_OPTIONS.input, rasterStrategy: 'jpeg' as const } };
+    const asJpeg = await parsePdfBlob((await convertImageToPDF(source, jpegOptions)).pdfBlob);
+    expect(asJpeg.images[0]).toMatchObject({ filter: 'DCTDecode', width: 50, height: 40 });
+  });
+
+  it('uses fixed paper sizes turned to match the image', async () => {
+    const portrait = await convertImageToPDF(
+      { name: 'tall.jpg', bytes: makeJpeg(200, 300), format: 'jpeg' },
+      withLayout({ pageSize: 'a4' })
+    );
+    expectBox((await parsePdfBlob(portrait.pdfBlob)).mediaBoxes[0], A4_PT[0], A4_PT[1]);
+
+    const landscape = await convertImageToPDF(
+      { name: 'wide.jpg', bytes: makeJpeg(300, 200), format: 'jpeg' },
+      withLayout({ pageSize: 'a4' })
+    );
+    expectBox((await parsePdfBlob(landscape.pdfBlob)).mediaBoxes[0], A4_PT[1], A4_PT[0]);
+  });
+
+  it('writes the document info', async () => {
+    const { pdfBlob } = await convertImageToPDF(
+      { name: 'photo.jpg', bytes: makeJpeg(20, 20), format: 'jpeg' },
+      DEFAULT_OPTIONS,
+      { title: 'Invoice 42', author: 'Accounts', subject: '', keywords: '' }
+    );
+    const { text } = await parsePdfBlob(pdfBlob);
+    expect(text).toContain('/Title (Invoice 42)');
+    expect(text).toContain('/Author (Accounts)');
+  });
+
+  it('rejects images it cannot read', async () => {
+    await expect(
+      convertImageToPDF({ name: 'broken.jpg', bytes: BROKEN_JPEG, format: 'jpeg' }, DEFAULT_OPTIONS)
+    ).rejects.toThrow();
+  });
+});
+
+describe('mergeImagesToPDF', () => {
+  it('adds a page per image in order and skips the ones that fail', async () => {
+    const first = makeJpeg(100, 50, 1);
+    const last = makeJpeg(60, 80, 2);
+    const reports: { index: number; error?: unknown; page?: PageInfo }[] = [];
+
+    const blob = await mergeImagesToPDF(
+      [
+        { name: 'first.jpg', bytes: first, format: 'jpeg' },
+        { name: 'broken.jpg', bytes: BROKEN_JPEG, format: 'jpeg' },
+        { name: 'last.jpg', bytes: last, format: 'jpeg' },
+      ],
+      DEFAULT_OPTIONS,
+      (index, error, page) => reports.push({ index, error, page })
+    );
+
+    expect(reports.map(r => [r.index, r.error === undefined])).toEqual([[0, true], [1, false], [2, true]]);
+    expect(reports[2].page).toMatchObject({ width: 60, height: 80, imageBytes: last.length });
+
+    const pdf = await parsePdfBlob(blob!);
+    expect(pdf.mediaBoxes).toHaveLength(2);
+    expectBox(pdf.mediaBoxes[0], 100 * PT_PER_PX, 50 * PT_PER_PX);
+    expectBox(pdf.mediaBoxes[1], 60 * PT_PER_PX, 80 * PT_PER_PX);
+    expect(pdf.images.map(image => Buffer.from(image.data))).toEqual([Buffer.from(first), Buffer.from(last)]);
+  });
+
+  it('leaves no page behind for an image jsPDF rejects', async () => {
+    const png = makePng(40, 40, 5);
+    const blob = await mergeImagesToPDF(
+      [
+        { name: 'a.jpg', bytes: makeJpeg(30, 30, 3), format: 'jpeg' },
+        // The header is intact, so it's only found to be corrupt when drawn
+        { name: 'cut.png', bytes: png.slice(0, png.length - 30), format: 'png' },
+        { name: 'c.jpg', bytes: makeJpeg(30, 30, 4), format: 'jpeg' },
+      ],
+      DEFAULT_OPTIONS,
+      undefined,
+      { title: 'Merged', author: '', subject: '', keywords: '', bookmarks: ['A', 'Cut', 'C'] }
+    );
+
+    const pdf = await parsePdfBlob(blob!);
+    expect(pdf.mediaBoxes).toHaveLength(2);
+    expect(pdf.text).not.toContain('/Title (Cut)');
+    // The last bookmark points at the second page, not a third
+    const pages = pdf.objects.filter(o => /\/Type\s*\/Page(?!s)\b/.test(o.dict)).map(o => o.id);
+    expect(pdf.text).toMatch(new RegExp(`/Title \\(C\\)[^>]*/Dest \\[${pages[1]} 0 R`));
+  });
+
+  it('labels pages with the prefix encoded as PDF text', async () => {
+    const merge = (pageLabelPrefix: string, security = DEFAULT_OPTIONS.security) => mergeImagesToPDF(
+      [{ name: 'a.jpg', bytes: makeJpeg(30, 30), format: 'jpeg' }],
+      { ...DEFAULT_OPTIONS, metadata: { ...DEFAULT_OPTIONS.metadata, pageLabels: 'R', pageLabelPrefix }, security }
+    );
+    const labels = (pdf: ParsedPdf) => {
+      const object = pdf.objects.find(o => /\/Nums/.test(o.dict))!;
+      expect(pdf.text).toMatch(new RegExp(`/PageLabels ${object.id} 0 R`));
+      return { id: object.id, style: /\/S \/(\w+)/.exec(object.dict)![1], prefix: /\/P <([0-9a-f]*)>/.exec(object.dict)?.[1] };
+    };
+
+    const plain = labels(await parsePdfBlob((await merge('Annexe é-'))!));
+    expect(plain.style).toBe('R');
+    expect(Buffer.from(plain.prefix!, 'hex').toString('latin1')).toBe('Annexe é-');
+
+    // A no-break space is the Euro sign in PDFDocEncoding
+    const noBreak = labels(await parsePdfBlob((await merge('Annex\u00a0A-'))!));
+    expect(noBreak.prefix).toBe('feff0041006e006e0065007800a00041002d');
+
+    const wide = labels(await parsePdfBlob((await merge('付録-'))!));
+    expect(Buffer.from(wide.prefix!, 'hex').swap16().toString('utf16le')).toBe('﻿付録-');
+
+    const emoji = labels(await parsePdfBlob((await merge('Scan 📄 '))!));
+    expect(emoji.prefix).toBe('feff005300630061006e0020d83ddcc40020');
+    expect(Buffer.from(emoji.prefix!, 'hex').swap16().toString('utf16le')).toBe('\ufeffScan 📄 ');
+
+    const encrypted = await parsePdfBlob((await merge('Annex (A)-', { ...DEFAULT_OPTIONS.security, enabled: true }))!);
+    const { id, prefix } = labels(encrypted);
+    expect(Buffer.from(decryptHexString(encrypted, id, prefix!)).toString('latin1')).toBe('Annex (A)-');
+  });
+
+  it('waits for the hook before adding each page', async () => {
+    const events: string[] = [];
+    let release = () => {};
+    const blob = mergeImagesToPDF(
+      [
+        { name: 'a.jpg', bytes: makeJpeg(30, 30, 3), format: 'jpeg' },
+        { name: 'b.jpg', bytes: makeJpeg(30, 30, 4), format: 'jpeg' },
+      ],
+      DEFAULT_OPTIONS,
+      index => events.push(`page ${index}`),
+      undefined,
+      // Holds the second page until released, as a paused run does
+      () => events.length === 0
+        ? (events.push('go'), Promise.resolve())
+        : new Promise<void>(resolve => {
+          events.push('hold');
+          release = resolve;
+        })
+    );
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(events).toEqual(['go', 'page 0', 'hold']);
+    release();
+    expect((await parsePdfBlob((await blob)!)).mediaBoxes).toHaveLength(2);
+    expect(events).toEqual(['go', 'page 0', 'hold', 'page 1']);
+  });
+
+  it('returns null when no page could be added', async () => {
+    const blob = await mergeImagesToPDF([{ name: 'broken.jpg', bytes: BROKEN_JPEG, format: 'jpeg' }], DEFAULT_OPTIONS);
+    expect(blob).toBeNull();
+  });
+
+  it('adds a bookmark per image', async () => {
+    const blob = await mergeImagesToPDF(
+      [
+        { name: 'a.jpg', bytes: makeJpeg(30, 30, 3), format: 'jpeg' },
+        { name: 'b.jpg', bytes: makeJpeg(30, 30, 4), format: 'jpeg' },
+      ],
+      DEFAULT_OPTIONS,
+      undefined,
+      { title: 'Merged', author: '', subject: '', keywords: '', bookmarks: ['Cover', 'Back'] }
+    );
+    const { text } = await parsePdfBlob(blob!);
+    expect(text).toContain('/Title (Cover)');
+    expect(text).toContain('/Title (Back)');
+  });
+});
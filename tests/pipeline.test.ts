@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConversionOptions, OutputOptions } from '../types';
+import { DEFAULT_OPTIONS } from '../constants';
+import { BatchInput, convertBatch } from '../utils/pipeline';
+import * as scanCleanup from '../utils/scanCleanup';
+import { BROKEN_JPEG, makeJpeg, makePng } from './fixtures';
+import { parsePdfBlob } from './pdf';
+
+const input = (name: string, bytes: Uint8Array, relativePath?: string): BatchInput => ({
+  name,
+  relativePath,
+  bytes,
+  lastModified: 0,
+});
+
+const merged = (output: Partial<OutputOptions>): ConversionOptions => ({
+  ...DEFAULT_OPTIONS,
+  output: { ...DEFAULT_OPTIONS.output, mode: 'merge', ...output },
+});
+
+describe('convertBatch', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('converts each image into its own named PDF', async () => {
+    const jpeg = makeJpeg(40, 30);
+    const { documents, failures, converted } = await convertBatch(
+      [input('a.jpg', jpeg), input('b.png', makePng(20, 20))],
+      DEFAULT_OPTIONS
+    );
+
+    expect(failures).toEqual([]);
+    expect(converted).toBe(2);
+    expect(documents.map(d => [d.path, d.inputs])).toEqual([
+      ['converted_pdfs/a.pdf', [0]],
+      ['converted_pdfs/b.pdf', [1]],
+    ]);
+    const pdf = await parsePdfBlob(documents[0].pdfBlob);
+    expect(Buffer.from(pdf.images[0].data).equals(Buffer.from(jpeg))).toBe(true);
+  });
+
+  it('reports files it cannot convert and carries on', async () => {
+    const seen: [number, string | undefined][] = [];
+    const { documents, failures, converted } = await convertBatch(
+      [
+        input('notes.txt', new TextEncoder().encode('not an image'), 'docs/notes.txt'),
+        input('broken.jpg', BROKEN_JPEG),
+        input('ok.jpg', makeJpeg(10, 10)),
+      ],
+      DEFAULT_OPTIONS,
+      { onFile: (index, error) => seen.push([index, error]) }
+    );
+
+    expect(converted).toBe(1);
+    expect(documents.map(d => d.path)).toEqual(['converted_pdfs/ok.pdf']);
+    expect(failures.map(f => [f.index, f.name])).toEqual([[0, 'docs/notes.txt'], [1, 'broken.jpg']]);
+    expect(failures[0].error).toMatch(/Not a supported image/);
+    expect(seen.map(([index, error]) => [index, error === undefined])).toEqual([[0, false], [1, false], [2, true]]);
+  });
+
+  it('merges by folder, one page per image in order', async () => {
+    const { documents, converted } = await convertBatch(
+      [
+        input('1.jpg', makeJpeg(30, 20, 1), 'scans/a/1.jpg'),
+        input('1.jpg', makeJpeg(30, 20, 2), 'scans/b/1.jpg'),
+        input('2.jpg', makeJpeg(20, 30, 3), 'scans/a/2.jpg'),
+      ],
+      merged({ grouping: 'folder' })
+    );
+
+    expect(converted).toBe(3);
+    expect(documents.map(d => [d.path, d.inputs])).toEqual([
+      ['converted_pdfs/scans_a.pdf', [0, 2]],
+      ['converted_pdfs/scans_b.pdf', [1]],
+    ]);
+    expect((await parsePdfBlob(documents[0].pdfBlob)).mediaBoxes).toHaveLength(2);
+  });
+
+  it('leaves failed images out of the merged document', async () => {
+    const { documents, failures } = await convertBatch(
+      [input('a.jpg', makeJpeg(10, 10)), input('broken.jpg', BROKEN_JPEG), input('c.jpg', makeJpeg(10, 10, 2))],
+      merged({ grouping: 'all' })
+    );
+
+    expect(failures.map(f => f.index)).toEqual([1]);
+    expect(documents.map(d => [d.path, d.inputs])).toEqual([['converted_pdfs/merged.pdf', [0, 2]]]);
+    expect((await parsePdfBlob(documents[0].pdfBlob)).mediaBoxes).toHaveLength(2);
+  });
+
+  it('converts images whose cleanup failed as they are, and reports them', async () => {
+    vi.spyOn(scanCleanup, 'cleanupImage').mockRejectedValue(new Error('No page found'));
+    const seen: number[] = [];
+    const { documents, warnings, failures } = await convertBatch(
+      [input('a.jpg', makeJpeg(10, 10), 'scans/a.jpg')],
+      { ...DEFAULT_OPTIONS, cleanup: { ...DEFAULT_OPTIONS.cleanup, enabled: true } },
+      { onWarning: index => seen.push(index) }
+    );
+
+    expect(failures).toEqual([]);
+    expect(documents).toHaveLength(1);
+    expect(warnings).toEqual([
+      expect.objectContaining({ index: 0, name: 'scans/a.jpg', step: 'cleanup', detail: 'No page found' }),
+    ]);
+    expect(seen).toEqual([0]);
+  });
+
+  it('numbers stamps across the batch when each image gets its own PDF', async () => {
+    const { documents } = await convertBatch(
+      [input('a.jpg', makeJpeg(10, 10)), input('b.jpg', makeJpeg(10, 10, 2))],
+      { ...DEFAULT_OPTIONS, stamp: { ...DEFAULT_OPTIONS.stamp, enabled: true, text: 'Page {page} of {total}' } }
+    );
+
+    const stamps = await Promise.all(documents.map(async d =>
+      /\((Page \d+ of \d+)\) Tj/.exec((await parsePdfBlob(d.pdfBlob)).text)?.[1]
+    ));
+    expect(stamps).toEqual(['Page 1 of 2', 'Page 2 of 2']);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionOptions } from '../types';
+import { DEFAULT_OPTIONS, MIN_OPTIMIZE_QUALITY } from '../constants';
+import {
+  matchesPreset, parsePresetFile, PRESET_FORMAT, PRESET_VERSION, serializePreset, validateOptions,
+} from '../utils/presets';
+
+const CUSTOM: ConversionOptions = {
+  ...DEFAULT_OPTIONS,
+  optimize: { ...DEFAULT_OPTIONS.optimize, enabled: true, jpegQuality: 0.55, colorMode: 'grayscale' },
+  layout: { ...DEFAULT_OPTIONS.layout, pageSize: 'a4', marginMm: 5 },
+  output: { mode: 'merge', grouping: 'every-n', groupSize: 10 },
+  security: { enabled: true, userPassword: 'secret', ownerPassword: 'owner', permissions: ['print'] },
+};
+
+const presetFile = (fields: Record<string, unknown>) =>
+  JSON.stringify({ format: PRESET_FORMAT, version: PRESET_VERSION, name: 'Scans', ...fields });
+
+describe('preset files', () => {
+  it('round-trips the options, without the passwords', () => {
+    const json = serializePreset({ name: 'Office scans', options: CUSTOM });
+    expect(json).not.toContain('secret');
+
+    const { name, options } = parsePresetFile(json);
+    expect(name).toBe('Office scans');
+    expect(options).toEqual({ ...CUSTOM, security: { ...CUSTOM.security, userPassword: '', ownerPassword: '' } });
+    expect(matchesPreset({ id: 'p', name, options }, CUSTOM)).toBe(true);
+  });
+
+  it('fills in options the file leaves out with the defaults', () => {
+    const { options } = parsePresetFile(presetFile({ options: { layout: { pageSize: 'letter' } } }));
+    expect(options.layout).toEqual({ ...DEFAULT_OPTIONS.layout, pageSize: 'letter' });
+    expect(options.optimize).toEqual(DEFAULT_OPTIONS.optimize);
+  });
+
+  it('refuses files that are not presets this version can read', () => {
+    expect(() => parsePresetFile('{ not json')).toThrow('not valid JSON');
+    expect(() => parsePresetFile(JSON.stringify({ name: 'x', options: {} }))).toThrow('Not a BatchSnap preset file');
+    expect(() => parsePresetFile(presetFile({ version: PRESET_VERSION + 1, options: {} }))).toThrow(`version ${PRESET_VERSION + 1}`);
+    expect(() => parsePresetFile(presetFile({ version: '1', options: {} }))).toThrow('no valid version');
+    expect(() => parsePresetFile(presetFile({ name: '   ', options: {} }))).toThrow('no name');
+    expect(() => parsePresetFile(presetFile({ options: null }))).toThrow('no options');
+  });
+});
+
+describe('validateOptions', () => {
+  it('names out-of-range and malformed fields', () => {
+    expect(() => validateOptions({ optimize: { jpegQuality: 1.5 } })).toThrow('"optimize.jpegQuality" must be a number from');
+    expect(() => validateOptions({ output: { groupSize: 2.5 } })).toThrow('"output.groupSize" must be a whole number');
+    expect(() => validateOptions({ layout: { pageSize: 'a3' } })).toThrow('"layout.pageSize" must be one of');
+    expect(() => validateOptions({ stamp: { color: 'red' } })).toThrow('"stamp.color" is not in the expected format');
+    expect(() => validateOptions({ stamp: { logo: { dataUrl: 'javascript:alert(1)' } } })).toThrow('"stamp.logo.dataUrl"');
+    expect(() => validateOptions({ ocr: { languages: [] } })).toThrow('"ocr.languages" must not be empty');
+    expect(() => validateOptions({ security: 'on' })).toThrow('"security" must be an object');
+  });
+
+  it('lists the first few problems and counts the rest', () => {
+    const invalid = { layout: { marginMm: -1, dpi: 0, placement: 'tile', useImageDpi: 'yes', orientation: 'up' } };
+    expect(() => validateOptions(invalid)).toThrow(/; and 2 more$/);
+  });
+
+  it('accepts every JPEG quality the CLI and the UI can set, and nothing below', () => {
+    expect(validateOptions({ optimize: { jpegQuality: MIN_OPTIMIZE_QUALITY } }).optimize.jpegQuality).toBe(MIN_OPTIMIZE_QUALITY);
+    expect(() => validateOptions({ optimize: { jpegQuality: MIN_OPTIMIZE_QUALITY - 0.01 } })).toThrow('optimize.jpegQuality');
+  });
+
+  it('never reads passwords from a file', () => {
+    const options = validateOptions({ security: { enabled: true, userPassword: 'leaked', ownerPassword: 'leaked' } });
+    expect(options.security).toMatchObject({ enabled: true, userPassword: '', ownerPassword: '' });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionStatus, FileData, ProcessingStats } from '../types';
+import { buildRunReport, formatReport, getReportFileName } from '../utils/runReport';
+
+const file = (name: string, size: number, extra: Partial<FileData> = {}): FileData => ({
+  id: name,
+  file: new File([new Uint8Array(size)], name),
+  previewUrl: '',
+  status: ConversionStatus.COMPLETED,
+  ...extra,
+});
+
+const STATS: ProcessingStats = {
+  total: 3,
+  processed: 3,
+  success: 1,
+  failed: 1,
+  cancelled: 1,
+  startTime: Date.UTC(2024, 2, 5, 9, 0, 0),
+  endTime: Date.UTC(2024, 2, 5, 9, 0, 12, 500),
+};
+
+const FILES = [
+  file('a.jpg', 1000, { outputSize: 1200, width: 640, height: 480, durationMs: 321, relativePath: 'scans/a.jpg' }),
+  file('b, "final".jpg', 500, {
+    status: ConversionStatus.ERROR,
+    error: 'The file ends early',
+    errorCategory: 'truncated',
+    errorDetail: 'Unsupported image type',
+    durationMs: 40,
+  }),
+  file('=cmd.jpg', 10, { status: ConversionStatus.CANCELLED }),
+  file('d.jpg', 800, {
+    outputSize: 900,
+    warnings: [{ step: 'ocr', category: 'unknown', message: 'Text recognition failed', detail: 'Model missing' }],
+  }),
+];
+
+describe('buildRunReport', () => {
+  it('lists every file with its sizes, timing, error and skipped steps', () => {
+    const report = buildRunReport(FILES, STATS, Date.UTC(2024, 2, 5, 10));
+
+    expect(report.run).toEqual({
+      total: 3,
+      processed: 3,
+      success: 1,
+      failed: 1,
+      cancelled: 1,
+      startedAt: '2024-03-05T09:00:00.000Z',
+      finishedAt: '2024-03-05T09:00:12.500Z',
+      durationMs: 12500,
+    });
+    expect(report.files[0]).toEqual({
+      name: 'a.jpg',
+      path: 'scans/a.jpg',
+      status: 'completed',
+      inputBytes: 1000,
+      outputBytes: 1200,
+      width: 640,
+      height: 480,
+      durationMs: 321,
+      errorCategory: undefined,
+      error: undefined,
+      errorDetail: undefined,
+      warnings: undefined,
+    });
+    expect(report.files[1]).toMatchObject({ status: 'failed', errorCategory: 'truncated', errorDetail: 'Unsupported image type' });
+    expect(report.files[2].status).toBe('cancelled');
+    expect(report.files[3].warnings).toEqual([
+      { step: 'ocr', category: 'unknown', message: 'Text recognition failed', detail: 'Model missing' },
+    ]);
+  });
+
+  it('leaves out the timings of a run that has not finished', () => {
+    const { run } = buildRunReport([], { ...STATS, endTime: null });
+    expect(run.finishedAt).toBeUndefined();
+    expect(run.durationMs).toBeUndefined();
+  });
+});
+
+describe('formatReport', () => {
+  it('writes one escaped CSV row per file', () => {
+    const csv = formatReport(buildRunReport(FILES, STATS), 'csv');
+    expect(csv.split('\r\n')).toEqual([
+      'name,path,status,input_bytes,output_bytes,width,height,duration_ms,error_category,error,error_detail,warnings',
+      'a.jpg,scans/a.jpg,completed,1000,1200,640,480,321,,,,',
+      '"b, ""final"".jpg",,failed,500,,,,40,truncated,The file ends early,Unsupported image type,',
+      "'=cmd.jpg,,cancelled,10,,,,,,,,",
+      'd.jpg,,completed,800,900,,,,,,,Text recognition failed',
+      '',
+    ]);
+  });
+
+  it('round-trips as JSON', () => {
+    const report = buildRunReport(FILES, STATS);
+    expect(JSON.parse(formatReport(report, 'json'))).toEqual(JSON.parse(JSON.stringify(report)));
+  });
+
+  it('names the file by date and format', () => {
+    expect(getReportFileName('csv', new Date(2024, 2, 5, 12).getTime())).toBe('batchsnap-report-2024-03-05.csv');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessingStats } from '../types';
+import { finishRun, getProgressPercent, INITIAL_STATS, recordOutcome, RunOutcome, startRun } from '../utils/runStats';
+
+const expectConsistent = (stats: ProcessingStats) => {
+  expect(stats.processed).toBe(stats.success + stats.failed + stats.cancelled);
+  expect(stats.processed).toBeLessThanOrEqual(stats.total);
+};
+
+describe('run stats', () => {
+  it('starts a run from a clean slate', () => {
+    const previous = finishRun(recordOutcome(startRun(3, 1000), 'failed'), 2000);
+    const stats = startRun(5, 5000);
+
+    expect(stats).toEqual({ ...INITIAL_STATS, total: 5, startTime: 5000 });
+    expect(previous.failed).toBe(1);
+    expect(getProgressPercent(stats)).toBe(0);
+  });
+
+  it('counts a successful file', () => {
+    const stats = recordOutcome(startRun(2, 0), 'success');
+    expect(stats).toMatchObject({ processed: 1, success: 1, failed: 0, cancelled: 0 });
+    expect(getProgressPercent(stats)).toBe(50);
+  });
+
+  it('counts failed and cancelled files apart', () => {
+    let stats = startRun(3, 0);
+    stats = recordOutcome(stats, 'failed');
+    stats = recordOutcome(stats, 'cancelled');
+    stats = recordOutcome(stats, 'failed');
+
+    expect(stats).toMatchObject({ processed: 3, success: 0, failed: 2, cancelled: 1 });
+    expectConsistent(stats);
+  });
+
+  it('stays consistent through a mixed run and ends at 100%', () => {
+    const outcomes: RunOutcome[] = ['success', 'failed', 'success', 'cancelled', 'success'];
+
+    let stats = startRun(outcomes.length, 1000);
+    for (const outcome of outcomes) {
+      const next = recordOutcome(stats, outcome);
+      expectConsistent(next);
+      expect(getProgressPercent(next)).toBeGreaterThan(getProgressPercent(stats));
+      stats = next;
+    }
+    stats = finishRun(stats, 4000);
+
+    expect(stats).toEqual({
+      total: 5,
+      processed: 5,
+      success: 3,
+      failed: 1,
+      cancelled: 1,
+      startTime: 1000,
+      endTime: 4000,
+    });
+    expect(getProgressPercent(stats)).toBe(100);
+  });
+
+  it('does not change the stats it is given', () => {
+    const stats = startRun(1, 0);
+    recordOutcome(stats, 'success');
+    finishRun(stats, 10);
+    expect(stats).toEqual({ ...INITIAL_STATS, total: 1, startTime: 0 });
+  });
+
+  it('reports no progress for an empty run', () => {
+    expect(getProgressPercent(INITIAL_STATS)).toBe(0);
+    expect(getProgressPercent(finishRun(startRun(0, 0), 0))).toBe(0);
+  });
+});
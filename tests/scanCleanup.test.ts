@@ -0,0 +1,127 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import { CleanupOptions } from '../types';
+import { DEFAULT_OPTIONS } from '../constants';
+import { cleanupImage, cleanupScan, detectPageCorners } from '../utils/scanCleanup';
+
+const CLEANUP: CleanupOptions = { ...DEFAULT_OPTIONS.cleanup, enabled: true };
+
+const PAGE = { width: 300, height: 400 };
+
+/**
+ * A photo of a page with dark text lines: `page` colour on a `background` of `width` x `height`,
+ * turned `degrees` clockwise about the centre.
+ */
+const photograph = ({ width = 600, height = 600, degrees = 0, background = '#202020', page = '#f0f0f0', size = PAGE } = {}) => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.fillStyle = page;
+  ctx.fillRect(-size.width / 2, -size.height / 2, size.width, size.height);
+  ctx.fillStyle = '#000000';
+  for (let y = -size.height / 2 + 30; y < size.height / 2 - 30; y += 30) {
+    ctx.fillRect(-size.width / 2 + 20, y, size.width - 40, 6);
+  }
+  return new Blob([canvas.toBuffer('image/png')], { type: 'image/png' });
+};
+
+const grayAt = (canvas: OffscreenCanvas, x: number, y: number) => {
+  const [r, g, b] = canvas.getContext('2d')!.getImageData(Math.round(x), Math.round(y), 1, 1).data;
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+};
+
+// Row of the first text line crossing column `x`, searching down from the top
+const firstLineAt = (canvas: OffscreenCanvas, x: number) => {
+  for (let y = 0; y < canvas.height; y++) {
+    if (grayAt(canvas, x, y) < 100) return y;
+  }
+  return -1;
+};
+
+describe('detectPageCorners', () => {
+  it('finds the corners of a page on a dark background', async () => {
+    const corners = await detectPageCorners(photograph());
+    const expected = [[150, 100], [450, 100], [450, 500], [150, 500]];
+    corners!.forEach((corner, i) => {
+      expect(corner.x * 600).toBeCloseTo(expected[i][0], -1);
+      expect(corner.y * 600).toBeCloseTo(expected[i][1], -1);
+    });
+  });
+
+  it('finds nothing when no background shows', async () => {
+    expect(await detectPageCorners(photograph({ background: '#f0f0f0' }))).toBeNull();
+  });
+});
+
+describe('cleanupScan', () => {
+  it('turns a skewed page on a dark background upright and drops the background', async () => {
+    const canvas = await cleanupScan(photograph({ degrees: 8 }), CLEANUP);
+
+    expect(canvas.width).toBeGreaterThan(PAGE.width * 0.95);
+    expect(canvas.width).toBeLessThan(PAGE.width * 1.05);
+    expect(canvas.height).toBeGreaterThan(PAGE.height * 0.95);
+    expect(canvas.height).toBeLessThan(PAGE.height * 1.05);
+    // Paper right up to the corners, and text lines level across the page
+    for (const [x, y] of [[3, 3], [canvas.width - 4, 3], [3, canvas.height - 4], [canvas.width - 4, canvas.height - 4]]) {
+      expect(grayAt(canvas, x, y)).toBeGreaterThan(180);
+    }
+    expect(Math.abs(firstLineAt(canvas, canvas.width * 0.2) - firstLineAt(canvas, canvas.width * 0.8))).toBeLessThanOrEqual(3);
+  });
+
+  it('flattens hand-set corners to their size, even with cleanup off', async () => {
+    const canvas = await cleanupScan(
+      photograph({ width: 400, height: 200, background: '#f0f0f0' }),
+      DEFAULT_OPTIONS.cleanup,
+      [{ x: 0.25, y: 0.25 }, { x: 0.75, y: 0.25 }, { x: 0.75, y: 0.75 }, { x: 0.25, y: 0.75 }]
+    );
+    expect([canvas.width, canvas.height]).toEqual([200, 100]);
+  });
+
+  it('straightens tilted text when no page edges show', async () => {
+    const tilted = photograph({ degrees: 3, background: '#f0f0f0', size: { width: 700, height: 700 } });
+    const before = await cleanupScan(tilted, { ...CLEANUP, deskew: false });
+    const after = await cleanupScan(tilted, CLEANUP);
+
+    const drift = (canvas: OffscreenCanvas) =>
+      Math.abs(firstLineAt(canvas, canvas.width * 0.2) - firstLineAt(canvas, canvas.width * 0.8));
+    expect(drift(before)).toBeGreaterThan(10);
+    expect(drift(after)).toBeLessThanOrEqual(3);
+  });
+
+  it('trims a dark strip along the edge, but no more than a tenth of the side', async () => {
+    const canvas = createCanvas(400, 300);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#f0f0f0';
+    ctx.fillRect(0, 0, 400, 300);
+    ctx.fillStyle = '#101010';
+    ctx.fillRect(0, 0, 30, 300);
+    ctx.fillRect(0, 0, 400, 100);
+    const image = new Blob([canvas.toBuffer('image/png')]);
+
+    const cropped = await cleanupScan(image, { ...CLEANUP, perspective: false, deskew: false });
+    expect(cropped.width).toBeGreaterThanOrEqual(365);
+    expect(cropped.width).toBeLessThanOrEqual(372);
+    expect(grayAt(cropped, 2, cropped.height - 2)).toBeGreaterThan(180);
+    // The dark band along the top is wider than the cap allows
+    expect(cropped.height).toBeGreaterThanOrEqual(270);
+  });
+
+  it('whitens tinted paper and keeps the text dark', async () => {
+    const image = photograph({ width: 300, height: 400, background: '#b4a890', page: '#b4a890' });
+    const canvas = await cleanupScan(image, { ...CLEANUP, perspective: false, deskew: false, enhance: 'whiten' });
+
+    expect(grayAt(canvas, 10, 10)).toBeGreaterThan(235);
+    expect(grayAt(canvas, 150, firstLineAt(canvas, 150) + 2)).toBeLessThan(60);
+  });
+});
+
+describe('cleanupImage', () => {
+  it('keeps PNGs lossless and returns everything else as JPEG', async () => {
+    const bytes = new Uint8Array(await photograph().arrayBuffer());
+    expect((await cleanupImage({ name: 'page.png', bytes, format: 'png' }, CLEANUP)).type).toBe('image/png');
+    expect((await cleanupImage({ name: 'page.webp', bytes, format: 'webp' }, CLEANUP)).type).toBe('image/jpeg');
+  });
+});
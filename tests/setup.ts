@@ -0,0 +1,5 @@
+import { setRasterBackend } from '../utils/raster';
+import { nodeRasterBackend } from '../cli/nodeRaster';
+
+// Tests run in Node, where canvas work goes through the same backend as the CLI
+setRasterBackend(nodeRasterBackend);
@@ -0,0 +1,207 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { ConversionStatus, ExportOptions, FileData, MergedOutput } from '../types';
+import { DEFAULT_OPTIONS } from '../constants';
+import {
+  createBlobSink, ExportEntry, getFileEntries, getMergedEntries, getZipFileName, splitEntries, writeZip, ZipSink,
+} from '../utils/zipExport';
+
+// 2024-03-05, local time
+const LAST_MODIFIED = new Date(2024, 2, 5, 12).getTime();
+
+const pdf = (label: string) => new Blob([`%PDF-1.3 ${label}`], { type: 'application/pdf' });
+
+let nextId = 0;
+const fileData = (name: string, extra: Partial<FileData> = {}): FileData => ({
+  id: `file-${++nextId}`,
+  file: new File(['image'], name, { type: 'image/jpeg', lastModified: LAST_MODIFIED }),
+  previewUrl: '',
+  status: ConversionStatus.COMPLETED,
+  pdfBlob: pdf(name),
+  ...extra,
+});
+
+const exportOptions = (overrides: Partial<ExportOptions> = {}): ExportOptions => ({
+  ...DEFAULT_OPTIONS.export,
+  ...overrides,
+});
+
+const zipEntries = async (entries: ExportEntry[]) => {
+  const sink = createBlobSink();
+  await writeZip(entries, sink);
+  return sink.toBlob();
+};
+
+const readZip = async (blob: Blob) => {
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  const files = Object.values(zip.files).filter(entry => !entry.dir);
+  const contents: Record<string, string> = {};
+  for (const entry of files) {
+    contents[entry.name] = await entry.async('string');
+  }
+  return contents;
+};
+
+describe('getZipFileName', () => {
+  it('falls back to the default name and keeps it safe', () => {
+    expect(getZipFileName(exportOptions())).toBe('converted_pdfs.zip');
+    expect(getZipFileName(exportOptions({ zipName: '' }))).toBe('converted_pdfs.zip');
+    expect(getZipFileName(exportOptions({ zipName: 'a/b:c' }))).toBe('a_b_c.zip');
+  });
+
+  it('numbers the parts of a split export', () => {
+    expect(getZipFileName(exportOptions({ zipName: 'scans' }), 1, 1)).toBe('scans.zip');
+    expect(getZipFileName(exportOptions({ zipName: 'scans' }), 2, 3)).toBe('scans_part2.zip');
+    expect(getZipFileName(exportOptions({ zipName: 'scans' }), 7, 12)).toBe('scans_part07.zip');
+  });
+});
+
+describe('getFileEntries', () => {
+  it('names each PDF after its image inside the folder', () => {
+    const entries = getFileEntries([fileData('IMG_001.jpg'), fileData('scan.final.png')], exportOptions());
+    expect(entries.map(e => e.path)).toEqual(['converted_pdfs/IMG_001.pdf', 'converted_pdfs/scan.final.pdf']);
+  });
+
+  it('skips files that have no PDF and numbers the rest', () => {
+    const entries = getFileEntries(
+      [fileData('a.jpg'), fileData('failed.jpg', { pdfBlob: undefined, status: ConversionStatus.ERROR }), fileData('b.jpg')],
+      exportOptions({ nameTemplate: '{index:000}_{name}', folderName: '' })
+    );
+    expect(entries.map(e => e.path)).toEqual(['001_a.pdf', '002_b.pdf']);
+  });
+
+  it('expands size and date tokens', () => {
+    const entries = getFileEntries(
+      [fileData('a.jpg', { width: 640, height: 480 })],
+      exportOptions({ nameTemplate: '{date}_{width}x{height}', folderName: '' })
+    );
+    expect(entries[0].path).toBe('2024-03-05_640x480.pdf');
+  });
+
+  it('suffixes collisions instead of overwriting, ignoring case', () => {
+    const entries = getFileEntries(
+      [fileData('page.jpg'), fileData('page.png'), fileData('PAGE.webp')],
+      exportOptions({ folderName: '' })
+    );
+    expect(entries.map(e => e.path)).toEqual(['page.pdf', 'page (2).pdf', 'PAGE (3).pdf']);
+  });
+
+  it('recreates folders only when asked, and never outside the root', () => {
+    const files = [
+      fileData('one.jpg', { relativePath: 'scans/week1/one.jpg' }),
+      fileData('one.jpg', { relativePath: 'scans/week2/one.jpg' }),
+      fileData('evil.jpg', { relativePath: '../../evil.jpg' }),
+    ];
+
+    expect(getFileEntries(files, exportOptions({ preserveFolders: true })).map(e => e.path)).toEqual([
+      'converted_pdfs/scans/week1/one.pdf',
+      'converted_pdfs/scans/week2/one.pdf',
+      // ".." segments become "_" folders
+      'converted_pdfs/_/_/evil.pdf',
+    ]);
+    expect(getFileEntries(files, exportOptions()).map(e => e.path)).toEqual([
+      'converted_pdfs/one.pdf',
+      'converted_pdfs/one (2).pdf',
+      'converted_pdfs/evil.pdf',
+    ]);
+  });
+});
+
+describe('getMergedEntries', () => {
+  it('names documents after their group, dated by the first page', () => {
+    const first = fileData('a.jpg', { width: 100, height: 200 });
+    const outputs: MergedOutput[] = [
+      { id: 'm1', name: 'scans', fileIds: [first.id], pdfBlob: pdf('m1') },
+      { id: 'm2', name: 'scans', fileIds: [], pdfBlob: pdf('m2') },
+    ];
+
+    const entries = getMergedEntries(outputs, [first], exportOptions({ nameTemplate: '{name}_{width}_{date}' }));
+    expect(entries.map(e => e.path)).toEqual(['converted_pdfs/scans_100_2024-03-05.pdf', 'converted_pdfs/scans__.pdf']);
+  });
+});
+
+describe('writeZip with file entries', () => {
+  it('writes each PDF under its entry name', async () => {
+    const blob = await zipEntries(getFileEntries(
+      [fileData('a.jpg'), fileData('a.png'), fileData('skipped.jpg', { pdfBlob: undefined })],
+      exportOptions()
+    ));
+    expect(await readZip(blob)).toEqual({
+      'converted_pdfs/a.pdf': '%PDF-1.3 a.jpg',
+      'converted_pdfs/a (2).pdf': '%PDF-1.3 a.png',
+    });
+  });
+});
+
+describe('writeZip with merged entries', () => {
+  it('writes one PDF per merged document', async () => {
+    const files = [fileData('a.jpg'), fileData('b.jpg')];
+    const outputs: MergedOutput[] = [
+      { id: 'm1', name: 'Part 1', fileIds: [files[0].id], pdfBlob: pdf('first') },
+      { id: 'm2', name: 'Part 2', fileIds: [files[1].id], pdfBlob: pdf('second') },
+    ];
+
+    const blob = await zipEntries(getMergedEntries(outputs, files, exportOptions({ folderName: 'out', nameTemplate: '{index}-{name}' })));
+    expect(await readZip(blob)).toEqual({
+      'out/1-Part 1.pdf': '%PDF-1.3 first',
+      'out/2-Part 2.pdf': '%PDF-1.3 second',
+    });
+  });
+});
+
+const MB = 1024 * 1024;
+const entry = (path: string, bytes: number): ExportEntry => ({ path, blob: new Blob([new Uint8Array(bytes)]) });
+
+describe('splitEntries', () => {
+  it('keeps everything together without a cap', () => {
+    const entries = [entry('a.pdf', 3 * MB), entry('b.pdf', 3 * MB)];
+    expect(splitEntries(entries, 0)).toEqual([entries]);
+    expect(splitEntries([], 0)).toEqual([]);
+  });
+
+  it('starts a new part before one would go over the cap, keeping order', () => {
+    const entries = [entry('a.pdf', 2 * MB), entry('b.pdf', 2 * MB), entry('c.pdf', 1 * MB), entry('d.pdf', 4 * MB)];
+    expect(splitEntries(entries, 5).map(part => part.map(e => e.path))).toEqual([['a.pdf', 'b.pdf', 'c.pdf'], ['d.pdf']]);
+  });
+
+  it('gives a PDF larger than the cap a part of its own', () => {
+    const entries = [entry('a.pdf', MB / 2), entry('huge.pdf', 3 * MB), entry('c.pdf', MB / 2)];
+    expect(splitEntries(entries, 1).map(part => part.map(e => e.path))).toEqual([['a.pdf'], ['huge.pdf'], ['c.pdf']]);
+  });
+});
+
+describe('writeZip', () => {
+  it('streams the archive in chunks and reports progress up to 100%', async () => {
+    const sink = createBlobSink();
+    const writes: number[] = [];
+    const progress: number[] = [];
+    const counting: ZipSink = { ...sink, write: chunk => (writes.push(chunk.length), sink.write(chunk)) };
+
+    await writeZip([entry('a.pdf', 100_000), entry('b.pdf', 100_000)], counting, percent => progress.push(percent));
+
+    expect(writes.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(100);
+    const zip = await JSZip.loadAsync(await sink.toBlob().arrayBuffer());
+    expect(Object.keys(zip.files)).toEqual(['a.pdf', 'b.pdf']);
+    expect((await zip.file('b.pdf')!.async('uint8array')).length).toBe(100_000);
+  });
+
+  it('aborts the sink instead of closing it when a write fails', async () => {
+    const calls: string[] = [];
+    const failing: ZipSink = {
+      write: async () => {
+        calls.push('write');
+        throw new Error('Disk full');
+      },
+      close: async () => {
+        calls.push('close');
+      },
+      abort: async () => {
+        calls.push('abort');
+      },
+    };
+
+    await expect(writeZip([entry('a.pdf', 10)], failing)).rejects.toThrow('Disk full');
+    expect(calls).toEqual(['write', 'abort']);
+  });
+});
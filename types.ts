@@ -4,24 +4,365 @@ export enum ConversionStatus {
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
+  // Detected at import; never queued
+  UNSUPPORTED = 'UNSUPPORTED',
+}
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp';
+
+// How formats a PDF can't hold natively (WebP, GIF, BMP) are re-encoded
+export type RasterStrategy = 'png' | 'jpeg';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// User adjustments applied on top of the upright image: clockwise rotation, then flips
+export interface ImageTransform {
+  rotation: Rotation;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+// What the conversion pipeline works on: plain bytes, so it can run off the main thread
+export interface ImageSource {
+  name: string;
+  bytes: Uint8Array;
+  format: ImageFormat;
+  transform?: ImageTransform;
+  // Bytes this image may take up in the output when a target size is set
+  byteBudget?: number;
+  // Recognised text, written as an invisible layer over the image
+  ocr?: OcrResult;
+  // Hand-set page outline for scan cleanup
+  corners?: Quad;
+}
+
+// A point on an image, as fractions of its upright width and height (EXIF orientation applied)
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Outline of a page in a photo: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export type EnhanceMode = 'none' | 'contrast' | 'whiten';
+
+// Preprocessing for photographed documents, applied before an image is converted
+export interface CleanupOptions {
+  enabled: boolean;
+  // Find the page's edges and flatten it to a rectangle
+  perspective: boolean;
+  // Straighten text lines when no page edges were found
+  deskew: boolean;
+  // Trim dark strips left along the edges
+  cropBorders: boolean;
+  enhance: EnhanceMode;
+}
+
+// Bundled Tesseract language models
+export type OcrLanguage = 'eng' | 'deu' | 'fra' | 'spa';
+
+export interface OcrOptions {
+  enabled: boolean;
+  languages: OcrLanguage[];
+}
+
+// A recognised word's box, in pixels of the upright image (after orientation and rotate/flip)
+export interface OcrWord {
+  text: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrResult {
+  words: OcrWord[];
+  // Mean word confidence, 0-100
+  confidence: number;
+  // Size of the image the boxes refer to
+  width: number;
+  height: number;
+}
+
+// What the converter reports about each page it adds
+export interface PageInfo {
+  // Pixel size of the image as placed, i.e. after orientation
+  width: number;
+  height: number;
+  // Size of the image stream embedded for it
+  imageBytes: number;
+}
+
+export interface ConversionResult extends PageInfo {
+  pdfBlob: Blob;
+}
+
+// Why a file couldn't be converted, see utils/diagnostics.ts
+export type ErrorCategory =
+  | 'unsupported'
+  | 'unreadable'
+  | 'truncated'
+  | 'unsupported-variant'
+  | 'out-of-memory'
+  | 'crashed'
+  | 'unknown';
+
+export interface ErrorDiagnosis {
+  category: ErrorCategory;
+  // What went wrong, for the user
+  message: string;
+  // The underlying exception message, when there was one
+  detail?: string;
+}
+
+// A preparation step that failed without failing the file; its PDF was made without that step
+export type WarningStep = 'cleanup' | 'ocr';
+
+export interface ConversionWarning extends ErrorDiagnosis {
+  step: WarningStep;
+}
+
+// What grouping, naming and metadata read from a queued image. FileData is one; the headless
+// pipeline (utils/pipeline.ts) builds its own from files on disk
+export interface SourceFile {
+  file: {
+    name: string;
+    lastModified: number;
+    webkitRelativePath?: string;
+  };
+  relativePath?: string;
+  capturedAt?: number;
+  width?: number;
+  height?: number;
+  metadata?: Partial<DocumentMetadata>;
 }
 
 export interface FileData {
   id: string;
   file: File;
+  // Path relative to the dropped or picked folder, e.g. "scans/batch1/page_01.jpg"
+  relativePath?: string;
   previewUrl: string;
   status: ConversionStatus;
+  format?: ImageFormat;
+  transform?: ImageTransform;
+  // Page corners set by hand in the scan editor; used instead of edge detection
+  corners?: Quad;
+  // EXIF capture time, for sorting
+  capturedAt?: number;
+  // Filled in shortly after import, for duplicate detection (see utils/duplicates)
+  contentHash?: string;
+  perceptualHash?: string;
+  // The user kept this file although it looks like a duplicate
+  keepDuplicate?: boolean;
   pdfBlob?: Blob;
   error?: string;
+  errorCategory?: ErrorCategory;
+  errorDetail?: string;
+  // Steps the last run had to skip for this file
+  warnings?: ConversionWarning[];
   width?: number;
   height?: number;
+  // Time the last run spent on this file; in merged documents, on its page
+  durationMs?: number;
+  // Bytes this file contributed to the output: its PDF, or its image stream in a merged document
+  outputSize?: number;
+  // Where its PDF was saved; pdfBlob may be gone if memory was released afterwards
+  savedTo?: string;
+  // Overrides for the batch metadata templates; in merged documents the title names its bookmark
+  metadata?: Partial<DocumentMetadata>;
+  // The PDF was written password-protected
+  encrypted?: boolean;
+  // Mean OCR confidence (0-100) of the text layer, when OCR ran
+  ocrConfidence?: number;
 }
 
+// Counters for the current run only; processed is always success + failed + cancelled
 export interface ProcessingStats {
   total: number;
   processed: number;
   success: number;
   failed: number;
+  cancelled: number;
   startTime: number | null;
   endTime: number | null;
 }
+
+export type SortKey = 'name' | 'date' | 'size';
+
+export type OutputMode = 'separate' | 'merge';
+
+export type MergeGrouping = 'all' | 'every-n' | 'folder';
+
+export interface OutputOptions {
+  mode: OutputMode;
+  grouping: MergeGrouping;
+  // Pages per document when grouping is 'every-n'
+  groupSize: number;
+}
+
+export interface InputOptions {
+  rasterStrategy: RasterStrategy;
+  // 0-1, used when rasterStrategy is 'jpeg'
+  jpegQuality: number;
+}
+
+export type ColorMode = 'color' | 'grayscale' | 'bw';
+
+// Re-encoding applied before embedding; when disabled, images go in untouched
+export interface OptimizeOptions {
+  enabled: boolean;
+  // Longest side in pixels, 0 for no limit
+  maxLongEdge: number;
+  // Downsample images placed denser than this on their page, 0 for no limit
+  targetDpi: number;
+  // 0-1
+  jpegQuality: number;
+  colorMode: ColorMode;
+  // Budget for the whole batch in MB, shared out by original file size; 0 disables
+  targetSizeMb: number;
+}
+
+// 'image' sizes each page exactly to its image's pixels
+export type PageSize = 'image' | 'a4' | 'letter' | 'legal';
+
+export type PageOrientation = 'auto' | 'portrait' | 'landscape';
+
+export type ImagePlacement = 'fit' | 'fill' | 'center' | 'actual';
+
+export interface LayoutOptions {
+  pageSize: PageSize;
+  orientation: PageOrientation;
+  marginMm: number;
+  placement: ImagePlacement;
+  // Resolution used by 'actual' placement
+  dpi: number;
+  // Size pages from the resolution declared in the file (JFIF/EXIF) when there is one
+  useImageDpi: boolean;
+}
+
+export interface ExportOptions {
+  // File name template, see utils/naming.ts for tokens
+  nameTemplate: string;
+  zipName: string;
+  // Folder inside the ZIP; empty puts files at the root
+  folderName: string;
+  // Recreate the dropped directory structure inside the ZIP
+  preserveFolders: boolean;
+  // Start a new ZIP once one reaches this many MB; 0 for a single ZIP
+  splitSizeMb: number;
+  // Write each PDF into a folder on disk as soon as it's converted (File System Access API)
+  saveToFolder: boolean;
+  // Drop PDFs from memory once they're saved to disk or downloaded
+  releaseSaved: boolean;
+}
+
+// Document Info fields; in options these are templates, see utils/naming.ts for tokens
+export interface DocumentMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  // Comma-separated
+  keywords: string;
+}
+
+// Numbering style of the /PageLabels entry, using the PDF's own codes:
+// D decimal, r/R lower/upper roman, a/A lower/upper letters
+export type PageLabelStyle = 'none' | 'D' | 'r' | 'R' | 'a' | 'A';
+
+export interface MetadataOptions extends DocumentMetadata {
+  // Outline entry per source image in merged documents
+  bookmarks: boolean;
+  pageLabels: PageLabelStyle;
+  pageLabelPrefix: string;
+}
+
+// Metadata resolved for one output document
+export interface DocumentInfo extends DocumentMetadata {
+  // Outline titles, one per source image
+  bookmarks?: string[];
+}
+
+// Where a separate PDF falls in its batch, so stamps number pages across the whole batch
+export interface StampNumbering {
+  // 1-based position of the document's page in the batch
+  page: number;
+  total: number;
+}
+
+export type StampKind = 'text' | 'image';
+
+export type StampPosition =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'center'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// A PNG or JPEG logo, kept as a data URL so it can be persisted and posted to workers
+export interface StampLogo {
+  dataUrl: string;
+  format: 'PNG' | 'JPEG';
+  width: number;
+  height: number;
+}
+
+// Overlay drawn on every page, above the image
+export interface StampOptions {
+  enabled: boolean;
+  kind: StampKind;
+  // Template, see utils/stamp.ts for tokens
+  text: string;
+  // Points
+  fontSize: number;
+  // '#rrggbb'
+  color: string;
+  // 0-1
+  opacity: number;
+  // Degrees, counter-clockwise
+  rotation: number;
+  position: StampPosition;
+  // Distance from the page edge for positions other than 'center'
+  marginMm: number;
+  logo?: StampLogo;
+  logoWidthMm: number;
+}
+
+export type PdfPermission = 'print' | 'copy' | 'modify';
+
+// PDF encryption. Passwords are only ever held in memory: they're left out of anything saved
+export interface SecurityOptions {
+  enabled: boolean;
+  // Required to open the document; empty lets anyone open it, subject to the permissions
+  userPassword: string;
+  // Lifts the restrictions; a random one nobody knows is used when empty
+  ownerPassword: string;
+  // What someone opening with the user password may do
+  permissions: PdfPermission[];
+}
+
+export interface ConversionOptions {
+  input: InputOptions;
+  optimize: OptimizeOptions;
+  ocr: OcrOptions;
+  cleanup: CleanupOptions;
+  layout: LayoutOptions;
+  output: OutputOptions;
+  metadata: MetadataOptions;
+  stamp: StampOptions;
+  security: SecurityOptions;
+  export: ExportOptions;
+}
+
+export interface FileGroup<T extends SourceFile = FileData> {
+  name: string;
+  files: T[];
+}
+
+export interface MergedOutput {
+  id: string;
+  name: string;
+  fileIds: string[];
+  pdfBlob: Blob;
+  encrypted?: boolean;
+}
@@ -0,0 +1,43 @@
+import { convertImageToPDF, mergeImagesToPDF } from './pdfConverter';
+import { cleanupImage } from './scanCleanup';
+import { diagnoseError } from './diagnostics';
+import type { WorkerControl, WorkerRequest, WorkerResponse } from './workerPool';
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+// Set while the pool is paused
+let paused = false;
+const resumeWaiters: (() => void)[] = [];
+
+// Run before each merged page. Yielding first lets a pause sent mid-job be handled.
+const waitWhilePaused = async () => {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  while (paused) await new Promise<void>(resolve => resumeWaiters.push(resolve));
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest | WorkerControl>) => {
+  if ('control' in event.data) {
+    paused = event.data.control === 'pause';
+    if (!paused) resumeWaiters.splice(0).forEach(resolve => resolve());
+    return;
+  }
+  const { id, kind, sources, options, info, numbering } = event.data;
+
+  try {
+    if (kind === 'merge') {
+      const pdfBlob = await mergeImagesToPDF(sources, options, (index, error, page) => {
+        post({ id, type: 'page', index, error: error === undefined ? undefined : diagnoseError(error, sources[index].bytes), page });
+      }, info, waitWhilePaused);
+      post({ id, type: 'done', pdfBlob });
+    } else if (kind === 'cleanup') {
+      const image = await cleanupImage(sources[0], options.cleanup);
+      post({ id, type: 'cleaned', image });
+    } else {
+      const { pdfBlob, ...page } = await convertImageToPDF(sources[0], options, info, numbering);
+      post({ id, type: 'done', pdfBlob, page });
+    }
+  } catch (error) {
+    // Merge jobs report their pages above; this is the job itself failing
+    post({ id, type: 'error', error: diagnoseError(error, kind === 'merge' ? undefined : sources[0].bytes) });
+  }
+};
@@ -0,0 +1,330 @@
+import {
+  ConversionOptions, ConversionResult, ConversionStatus, ConversionWarning, FileData, ImageTransform, MergedOutput,
+  OcrLanguage, OcrResult, PageInfo, SourceFile,
+} from '../types';
+import { getDiagnosis, getWarning } from './diagnostics';
+import { groupFiles } from './grouping';
+import { getByteBudget } from './imageOptimizer';
+import { getFileMetadata, getGroupMetadata } from './metadata';
+import { RunOutcome } from './runStats';
+import { isCancellation, PoolInput, WorkerPool } from './workerPool';
+import { getFilePath, getMergedPath } from './zipExport';
+
+// One run of the queue through the worker pool, as started from the UI. State changes go out
+// through callbacks, so the run itself knows nothing about React and can be driven by a fake pool.
+
+// Statuses "Convert All" picks up; QUEUED outside a run means a reload interrupted it
+export const RUNNABLE_STATUSES = [
+  ConversionStatus.IDLE, ConversionStatus.QUEUED, ConversionStatus.ERROR, ConversionStatus.CANCELLED,
+];
+
+// What a run needs from the pool
+export type RunPool = Pick<WorkerPool, 'size' | 'convert' | 'merge' | 'cleanup' | 'whenResumed'>;
+
+export interface QueueRun {
+  // The whole list, for numbering and the batch's size budget
+  files: FileData[];
+  // What to run, from selectQueue
+  queue: FileData[];
+  options: ConversionOptions;
+  pool: RunPool;
+  // OCR engine, needed when options.ocr is on
+  recognize?: (image: Blob, languages: OcrLanguage[], transform?: ImageTransform, signal?: AbortSignal) => Promise<OcrResult>;
+  // Signal that cancels one file, or one merged document (`group:<n>`)
+  createSignal: (key: string) => AbortSignal;
+  // Writes a finished PDF into the output folder, when saving to one; see OutputFolder.save
+  saveToFolder?: (key: string, name: (taken: Set<string>) => string, pdfBlob: Blob) => Promise<string>;
+  // A change to one file, to apply on top of its current state
+  onUpdate: (id: string, updates: Partial<FileData>) => void;
+  // Fired once per queued file as it ends up done, failed or cancelled
+  onOutcome: (outcome: RunOutcome) => void;
+}
+
+export interface QueueRunResult {
+  // Merge mode only: the documents still held in memory
+  mergedOutputs?: MergedOutput[];
+  // PDFs that could not be written to the output folder
+  saveFailures: number;
+}
+
+/**
+ * The files a run takes: the given ones or every runnable one. Merge mode always rebuilds every
+ * document, so `ids` only applies to separate PDFs.
+ */
+export const selectQueue = (files: FileData[], options: ConversionOptions, ids?: string[]): FileData[] => {
+  const convertible = files.filter(f => f.status !== ConversionStatus.UNSUPPORTED);
+  return options.output.mode === 'merge'
+    ? convertible
+    : convertible.filter(f => ids ? ids.includes(f.id) : RUNNABLE_STATUSES.includes(f.status));
+};
+
+// Runs tasks at most `count` at a time, in the order they ask. A task still waiting for its turn
+// is dropped as soon as its signal aborts.
+const createLimiter = (count: number) => {
+  let free = count;
+  const waiting: (() => void)[] = [];
+
+  const acquire = (signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    if (free > 0) {
+      free--;
+      return resolve();
+    }
+    const take = () => {
+      signal.removeEventListener('abort', drop);
+      resolve();
+    };
+    const drop = () => {
+      waiting.splice(waiting.indexOf(take), 1);
+      reject(signal.reason);
+    };
+    waiting.push(take);
+    signal.addEventListener('abort', drop, { once: true });
+  });
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else free++;
+  };
+
+  return async <T>(signal: AbortSignal, task: () => Promise<T>): Promise<T> => {
+    await acquire(signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+};
+
+/**
+ * Converts `run.queue`, reporting every file's progress and outcome as it happens.
+ * Resolves once every file has ended up in one of the outcomes and any saves have finished.
+ */
+export const runQueue = async (run: QueueRun): Promise<QueueRunResult> => {
+  const { files, queue, options, pool, onUpdate, onOutcome } = run;
+  const isMerge = options.output.mode === 'merge';
+
+  // When each file's conversion began, for its duration in the run report
+  const startTimes = new Map<string, number>();
+  const markProcessing = (id: string) => {
+    if (!startTimes.has(id)) startTimes.set(id, Date.now());
+    onUpdate(id, { status: ConversionStatus.PROCESSING });
+  };
+  const getDuration = (id: string) => {
+    const start = startTimes.get(id);
+    return start === undefined ? undefined : Date.now() - start;
+  };
+
+  // Every file ends the run in exactly one of these buckets
+  const recordSuccess = (id: string, page?: PageInfo, pdfBlob?: Blob, ocr?: OcrResult) => {
+    onUpdate(id, {
+      status: ConversionStatus.COMPLETED,
+      pdfBlob,
+      width: page?.width,
+      height: page?.height,
+      outputSize: pdfBlob?.size ?? page?.imageBytes,
+      durationMs: getDuration(id),
+      encrypted: options.security.enabled,
+      ocrConfidence: ocr?.confidence,
+    });
+    onOutcome('success');
+  };
+  const recordFailure = (id: string, err: unknown) => {
+    if (isCancellation(err)) {
+      onUpdate(id, { status: ConversionStatus.CANCELLED, durationMs: getDuration(id) });
+      onOutcome('cancelled');
+    } else {
+      const { category, message, detail } = getDiagnosis(err);
+      onUpdate(id, {
+        status: ConversionStatus.ERROR,
+        error: message,
+        errorCategory: category,
+        errorDetail: detail,
+        durationMs: getDuration(id),
+      });
+      onOutcome('failed');
+    }
+  };
+
+  const convertibleFiles = files.filter(f => f.status !== ConversionStatus.UNSUPPORTED);
+  const batchBytes = convertibleFiles.reduce((acc, f) => acc + f.file.size, 0);
+
+  const toPoolInput = (file: FileData): PoolInput => ({
+    name: file.file.name,
+    file: file.file,
+    format: file.format!,
+    transform: file.transform,
+    byteBudget: getByteBudget(options.optimize, file.file.size, batchBytes),
+  });
+
+  const needsPreparation = (batch: FileData[]) =>
+    options.cleanup.enabled || options.ocr.enabled || batch.some(f => f.corners);
+
+  // Cleanup and OCR run ahead of conversion, so the text layer matches the cleaned-up page.
+  // Either failing only costs that step, which is recorded on the file; a cancellation ends it.
+  // Prepared images are held in memory, so only as many files are prepared at once as the pool
+  // has workers; a separate PDF keeps its turn until it's converted.
+  const limit = createLimiter(pool.size);
+  const prepareInput = async (file: FileData, signal: AbortSignal): Promise<PoolInput> => {
+    let input = toPoolInput(file);
+    const warnings: ConversionWarning[] = [];
+    if (options.cleanup.enabled || file.corners) {
+      try {
+        const image = await pool.cleanup({ ...input, corners: file.corners }, options, { signal });
+        input = { ...input, file: image, format: image.type === 'image/png' ? 'png' : 'jpeg' };
+      } catch (err) {
+        if (isCancellation(err)) throw err;
+        warnings.push(getWarning('cleanup', err));
+      }
+    }
+
+    if (options.ocr.enabled && run.recognize) {
+      // OCR runs outside the pool, so it waits out a pause here
+      await pool.whenResumed(signal);
+      // A cleaned image has no EXIF, so its orientation is already baked in
+      try {
+        input.ocr = await run.recognize(input.file, options.ocr.languages, file.transform, signal);
+      } catch (err) {
+        if (isCancellation(err)) throw err;
+        warnings.push(getWarning('ocr', err));
+      }
+    }
+    if (warnings.length > 0) onUpdate(file.id, { warnings });
+    return input;
+  };
+
+  // With a folder to save into, PDFs are written one at a time in list order, each once those
+  // before it are done, so {index} counts the PDFs before it as the ZIP export does
+  const save = run.saveToFolder;
+  let saveFailures = 0;
+  const saveToFolder = async (key: string, label: string, name: (taken: Set<string>) => string, pdfBlob: Blob) => {
+    if (!save) return undefined;
+    try {
+      return await save(key, name, pdfBlob);
+    } catch (err) {
+      saveFailures++;
+      console.error(`Failed to save ${label}`, err);
+      return undefined;
+    }
+  };
+
+  if (isMerge) {
+    // Each group is one job: its pages must land in the same document, in queue order.
+    // Separate groups still run in parallel on different workers.
+    const groups = groupFiles<FileData>(queue, options.output);
+
+    const built = groups.map(async (group, groupIndex): Promise<{ output: MergedOutput; first: SourceFile } | null> => {
+      const reported = new Set<number>();
+      // Size of the first page, for the name's size tokens
+      let firstPage: PageInfo | undefined;
+      const signal = run.createSignal(`group:${groupIndex}`);
+      try {
+        let inputs = group.files.map(toPoolInput);
+        if (needsPreparation(group.files)) {
+          group.files.forEach(f => markProcessing(f.id));
+          inputs = await Promise.all(group.files.map(f => limit(signal, () => prepareInput(f, signal))));
+        }
+
+        const pdfBlob = await pool.merge(inputs, options, {
+          info: getGroupMetadata(group, options.metadata, groupIndex + 1),
+          signal,
+          onStart: () => {
+            group.files.forEach(f => markProcessing(f.id));
+            // Pages are added one after another, so each is timed from the one before
+            startTimes.set(group.files[0].id, Date.now());
+          },
+          onPage: (index, error, page) => {
+            reported.add(index);
+            if (error !== undefined) {
+              recordFailure(group.files[index].id, error);
+            } else {
+              if (index === 0) firstPage = page;
+              recordSuccess(group.files[index].id, page, undefined, inputs[index].ocr);
+            }
+            if (index + 1 < group.files.length) startTimes.set(group.files[index + 1].id, Date.now());
+          },
+        });
+        if (!pdfBlob) return null;
+        const output: MergedOutput = {
+          id: crypto.randomUUID(),
+          name: group.name,
+          fileIds: group.files.map(f => f.id),
+          pdfBlob,
+          encrypted: options.security.enabled,
+        };
+        return { output, first: { ...group.files[0], width: firstPage?.width, height: firstPage?.height } };
+      } catch (err) {
+        // The whole job stopped (cancelled, or the worker crashed): every page not yet reported is lost
+        group.files.filter((_, i) => !reported.has(i)).forEach(f => recordFailure(f.id, err));
+        return null;
+      }
+    });
+
+    // Documents saved to the folder can be dropped from memory
+    const kept: MergedOutput[] = [];
+    let made = 0;
+    for (const [groupIndex, pending] of built.entries()) {
+      const result = await pending;
+      if (!result) continue;
+      const { output, first } = result;
+      const index = ++made;
+      const savedTo = await saveToFolder(`merged:${groupIndex}`, output.name,
+        taken => getMergedPath(output.name, index, first, options.export, taken), output.pdfBlob);
+      if (!savedTo || !options.export.releaseSaved) kept.push(output);
+    }
+    return { mergedOutputs: kept, saveFailures };
+  }
+
+  const processFile = async (file: FileData): Promise<ConversionResult | null> => {
+    const signal = run.createSignal(file.id);
+    const convert = (input: PoolInput) => pool.convert(input, options, {
+      info: getFileMetadata(file, options.metadata, files.indexOf(file) + 1),
+      // Stamps count pages across every image in the list, like one long document
+      numbering: { page: convertibleFiles.indexOf(file) + 1, total: convertibleFiles.length },
+      signal,
+      onStart: () => markProcessing(file.id),
+    });
+    try {
+      let input = toPoolInput(file);
+      const { pdfBlob, ...page } = needsPreparation([file])
+        ? await limit(signal, async () => {
+          markProcessing(file.id);
+          input = await prepareInput(file, signal);
+          return convert(input);
+        })
+        : await convert(input);
+      recordSuccess(file.id, page, pdfBlob, input.ocr);
+      return { pdfBlob, ...page };
+    } catch (err) {
+      recordFailure(file.id, err);
+      return null;
+    }
+  };
+
+  const converted = new Map(queue.map(file => [file.id, processFile(file)]));
+  if (!save) {
+    await Promise.all(converted.values());
+    return { saveFailures };
+  }
+
+  // Files left out of this run still count when they have a PDF from an earlier one
+  let index = 0;
+  for (const file of files) {
+    const pending = converted.get(file.id);
+    if (!pending) {
+      if (file.status === ConversionStatus.COMPLETED) index++;
+      continue;
+    }
+    const result = await pending;
+    if (!result) continue;
+    const fileIndex = ++index;
+    const savedTo = await saveToFolder(file.id, file.file.name,
+      taken => getFilePath({ ...file, ...result }, fileIndex, options.export, taken), result.pdfBlob);
+    if (savedTo) {
+      onUpdate(file.id, options.export.releaseSaved ? { savedTo, pdfBlob: undefined } : { savedTo });
+    }
+  }
+  return { saveFailures };
+};
@@ -0,0 +1,133 @@
+import { ConversionWarning, ErrorCategory, ErrorDiagnosis, ImageFormat, WarningStep } from '../types';
+import { detectImageFormat } from './imageFormat';
+import { hasEndOfImage, parseJpegHeader } from './jpegHeader';
+
+// Turns whatever a failed conversion threw into a category and a message the user can act on.
+// Diagnosis runs where the exception happens (usually a worker), since only there are the
+// original error and the image bytes both at hand; the result is plain data that crosses
+// postMessage.
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  unsupported: 'Unsupported',
+  unreadable: 'Unreadable',
+  truncated: 'Truncated',
+  'unsupported-variant': 'Unsupported variant',
+  'out-of-memory': 'Out of memory',
+  crashed: 'Crashed',
+  unknown: 'Other',
+};
+
+// Defaults; some diagnoses say more
+const MESSAGES: Record<ErrorCategory, string> = {
+  unsupported: 'Not a supported image',
+  unreadable: 'The image data is damaged and could not be decoded',
+  truncated: 'The file ends early; it was probably cut off while downloading or copying',
+  'unsupported-variant': 'This kind of image is not supported',
+  'out-of-memory': 'Ran out of memory; try fewer files at once or a lower size limit under Optimize',
+  crashed: 'The converter stopped unexpectedly, often because it ran out of memory',
+  unknown: 'Failed to convert',
+};
+
+// What the PDF is missing when a step fails; the category says why it failed
+const WARNING_MESSAGES: Record<WarningStep, string> = {
+  cleanup: 'Scan cleanup failed, so the page was converted as it was',
+  ocr: 'Text recognition failed, so the page has no searchable text',
+};
+
+const OUT_OF_MEMORY = /out of memory|allocation failed|array buffer allocation|invalid (typed )?array length|not enough memory/i;
+const UNDECODABLE = /decod|unsupported image|invalid|corrupt|not a (valid )?(jpe?g|png)|bad (huffman|marker)/i;
+
+// PNG ends with an IEND chunk; a little trailing junk after it is common and harmless
+const PNG_TAIL = 64;
+
+/**
+ * A conversion failure with its diagnosis attached, as the worker pool rejects with.
+ */
+export class ConversionError extends Error {
+  diagnosis: ErrorDiagnosis;
+
+  constructor(diagnosis: ErrorDiagnosis) {
+    super(diagnosis.message);
+    this.name = 'ConversionError';
+    this.diagnosis = diagnosis;
+  }
+}
+
+const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const isComplete = (bytes: Uint8Array, format: ImageFormat): boolean => {
+  switch (format) {
+    case 'jpeg':
+      return hasEndOfImage(bytes);
+    case 'png': {
+      const tail = String.fromCharCode(...bytes.subarray(Math.max(0, bytes.length - PNG_TAIL)));
+      return tail.includes('IEND');
+    }
+    case 'gif':
+      return bytes[bytes.length - 1] === 0x3b;
+    case 'bmp': {
+      // Declared file size, little-endian, right after the "BM" signature
+      const declared = bytes.length >= 6 ? (bytes[2] | (bytes[3] << 8) | (bytes[4] << 16) | (bytes[5] << 24)) >>> 0 : 0;
+      return declared <= bytes.length;
+    }
+    default:
+      return true;
+  }
+};
+
+// JPEG flavours that browsers or the PDF writer handle poorly, if any
+const describeJpegVariant = (bytes: Uint8Array): string | null => {
+  const header = parseJpegHeader(bytes);
+  if (!header) return null;
+  if (header.components === 4) return 'CMYK JPEGs are not supported; save the image as RGB and try again';
+  if (header.arithmetic) return 'Arithmetic-coded JPEGs are not supported; save the image as a standard JPEG';
+  if (header.lossless) return 'Lossless JPEGs are not supported; save the image as a standard JPEG or PNG';
+  if (header.precision !== 8) return `${header.precision}-bit JPEGs are not supported; save the image as an 8-bit JPEG`;
+  if (header.progressive) return 'This progressive JPEG could not be read; save it as a baseline JPEG and try again';
+  return null;
+};
+
+/**
+ * Works out why a conversion failed from the exception and, when given, the image's bytes.
+ * The bytes let it tell a cut-off download or an unusual JPEG flavour from a plain decode error.
+ */
+export const diagnoseError = (error: unknown, bytes?: Uint8Array): ErrorDiagnosis => {
+  const detail = describe(error);
+  const diagnosis = (category: ErrorCategory, message?: string): ErrorDiagnosis =>
+    ({ category, message: message ?? MESSAGES[category], detail });
+
+  if ((error instanceof RangeError && /memory|allocat|length/i.test(detail)) || OUT_OF_MEMORY.test(detail)) {
+    return diagnosis('out-of-memory');
+  }
+  // The file changed or went away after it was added
+  if (error instanceof DOMException && (error.name === 'NotReadableError' || error.name === 'NotFoundError')) {
+    return diagnosis('unreadable', 'The file could not be read; it may have been moved or changed since it was added');
+  }
+
+  if (bytes) {
+    const { format, reason } = detectImageFormat(bytes);
+    if (!format) return diagnosis('unsupported', reason);
+    if (!isComplete(bytes, format)) return diagnosis('truncated');
+    const variant = format === 'jpeg' ? describeJpegVariant(bytes) : null;
+    if (variant) return diagnosis('unsupported-variant', variant);
+  }
+
+  return UNDECODABLE.test(detail) ? diagnosis('unreadable') : diagnosis('unknown');
+};
+
+// A worker that died mid-job leaves no exception behind, only the error event's message
+export const getCrashDiagnosis = (detail?: string): ErrorDiagnosis => ({ category: 'crashed', message: MESSAGES.crashed, detail });
+
+/**
+ * The diagnosis carried by a ConversionError, or a best guess from the exception alone.
+ */
+export const getDiagnosis = (error: unknown): ErrorDiagnosis =>
+  error instanceof ConversionError ? error.diagnosis : diagnoseError(error);
+
+/**
+ * A skipped step, with the cause of its failure worked out like a failed conversion's.
+ */
+export const getWarning = (step: WarningStep, error: unknown, bytes?: Uint8Array): ConversionWarning => {
+  const { category, detail } = error instanceof ConversionError ? error.diagnosis : diagnoseError(error, bytes);
+  return { step, category, message: WARNING_MESSAGES[step], detail };
+};
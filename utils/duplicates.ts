@@ -0,0 +1,158 @@
+import { FileData } from '../types';
+import { getRasterBackend } from './raster';
+
+// Perceptual hashes this many bits apart (of 64) or fewer are treated as the same picture
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+// Hashing decodes every image, so only a few run at once to keep memory flat on big imports
+const HASH_CONCURRENCY = 4;
+
+// dHash compares each pixel with its right neighbour on a 9x8 thumbnail, giving 64 bits
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+// Browsers downsample well in one step only from moderate sizes, so go through this first
+const DHASH_PRESCALE = 64;
+
+export interface ImageHashes {
+  // SHA-256 of the file's bytes
+  contentHash: string;
+  // 64-bit difference hash as 16 hex digits; missing when the image couldn't be decoded
+  perceptualHash?: string;
+}
+
+export interface DuplicateCopy {
+  file: FileData;
+  // Byte-for-byte identical, rather than only looking the same
+  exact: boolean;
+}
+
+// The first file in queue order is kept; the others are its copies
+export interface DuplicateGroup {
+  original: FileData;
+  copies: DuplicateCopy[];
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const hashContent = async (file: Blob): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await file.arrayBuffer())));
+
+/**
+ * Difference hash of the upright image: survives re-saving, resizing and mild recompression,
+ * but not cropping or rotation.
+ */
+const hashPixels = async (file: Blob): Promise<string> => {
+  const raster = getRasterBackend();
+  const bitmap = await raster.decode(file, {
+    imageOrientation: 'from-image',
+    resizeWidth: DHASH_PRESCALE,
+    resizeHeight: DHASH_PRESCALE,
+  });
+  try {
+    const canvas = raster.createCanvas(DHASH_WIDTH, DHASH_HEIGHT);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    const luminance = (x: number, y: number) => {
+      const i = (y * DHASH_WIDTH + x) * 4;
+      return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+
+    const bytes = new Uint8Array(8);
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+      for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+        if (luminance(x, y) > luminance(x + 1, y)) {
+          bytes[y] |= 1 << x;
+        }
+      }
+    }
+    return toHex(bytes);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const hashImage = async (file: Blob): Promise<ImageHashes> => {
+  const contentHash = await hashContent(file);
+  try {
+    return { contentHash, perceptualHash: await hashPixels(file) };
+  } catch {
+    return { contentHash };
+  }
+};
+
+/**
+ * Hashes files a few at a time, reporting each as it finishes so flags appear while the rest run.
+ */
+export const hashImages = async (
+  files: FileData[],
+  onHashed: (id: string, hashes: ImageHashes) => void
+): Promise<void> => {
+  let next = 0;
+  const runNext = async (): Promise<void> => {
+    while (next < files.length) {
+      const file = files[next++];
+      try {
+        onHashed(file.id, await hashImage(file.file));
+      } catch (err) {
+        console.error(`Could not hash ${file.file.name}`, err);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(HASH_CONCURRENCY, files.length) }, runNext));
+};
+
+const popcount = (n: number) => {
+  let count = 0;
+  for (let v = n; v; v &= v - 1) count++;
+  return count;
+};
+
+const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    distance += popcount(parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16));
+  }
+  return distance;
+};
+
+const matches = (original: FileData, file: FileData): DuplicateCopy | null => {
+  if (original.contentHash === file.contentHash) {
+    return { file, exact: true };
+  }
+  if (
+    original.perceptualHash && file.perceptualHash &&
+    hammingDistance(original.perceptualHash, file.perceptualHash) <= NEAR_DUPLICATE_DISTANCE
+  ) {
+    return { file, exact: false };
+  }
+  return null;
+};
+
+/**
+ * Groups files that repeat an earlier file in the queue, either byte for byte or by their
+ * perceptual hash. Files marked to keep are never listed as copies, though later files can
+ * still be copies of them. Unhashed and unsupported files are left out.
+ */
+export const findDuplicateGroups = (files: FileData[]): DuplicateGroup[] => {
+  const groups: DuplicateGroup[] = [];
+  files.forEach(file => {
+    if (!file.contentHash || !file.format) return;
+
+    if (!file.keepDuplicate) {
+      for (const group of groups) {
+        const copy = matches(group.original, file);
+        if (copy) {
+          group.copies.push(copy);
+          return;
+        }
+      }
+    }
+    groups.push({ original: file, copies: [] });
+  });
+  return groups.filter(g => g.copies.length > 0);
+};
@@ -0,0 +1,160 @@
+import saveAs from 'file-saver';
+import { createBlobSink, ZipSink } from './zipExport';
+
+// Where exported PDFs and ZIPs end up: straight on disk through the File System Access API
+// where the browser has it (Chromium), otherwise as ordinary downloads.
+
+export interface ZipDestination {
+  open: (fileName: string) => Promise<ZipSink>;
+}
+
+// A folder picked to save PDFs into, for as long as it stays picked
+export interface OutputFolder {
+  name: string;
+  /**
+   * Writes the PDF for `key` (a file id, or `merged:<n>` for a merged document) and resolves
+   * to the path it went to. `name` returns the next free path from the template, suffixed past
+   * the `taken` paths. A key saved again gets its own path back if the name is unchanged;
+   * files it didn't write, from earlier in the session or already in the folder, are never replaced.
+   */
+  save: (key: string, name: (taken: Set<string>) => string, blob: Blob) => Promise<string>;
+}
+
+// The picker types are declared with the folder import's, in folderImport.ts
+export const canSaveToFolder = () => typeof window.showDirectoryPicker === 'function';
+
+// Without the File System Access API each ZIP is built in memory before it's downloaded, so
+// exports there are split into parts no larger than this
+export const IN_MEMORY_ZIP_LIMIT_MB = 200;
+
+/**
+ * Size to split ZIP exports at: the user's choice, capped where archives can't be streamed to disk.
+ */
+export const getZipPartSizeMb = (splitSizeMb: number) =>
+  canSaveToFolder() || (splitSizeMb > 0 && splitSizeMb <= IN_MEMORY_ZIP_LIMIT_MB) ? splitSizeMb : IN_MEMORY_ZIP_LIMIT_MB;
+
+// The user closing a picker isn't an error worth reporting
+export const isPickerDismissed = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Asks for a folder to write into. Must be called from a click handler, before anything else
+ * is awaited: browsers only show the picker in response to one.
+ */
+export const pickFolder = async (): Promise<FileSystemDirectoryHandle> => {
+  if (!window.showDirectoryPicker) {
+    throw new Error('This browser cannot save into folders');
+  }
+  return window.showDirectoryPicker({ id: 'batchsnap-output', mode: 'readwrite' });
+};
+
+const toSink = (writable: FileSystemWritableFileStream): ZipSink => ({
+  write: chunk => writable.write(chunk),
+  close: () => writable.close(),
+  abort: () => writable.abort(),
+});
+
+const openFile = async (folder: FileSystemDirectoryHandle, path: string, create = true) => {
+  const segments = path.split('/');
+  const name = segments.pop()!;
+  let directory = folder;
+  for (const segment of segments) {
+    directory = await directory.getDirectoryHandle(segment, { create });
+  }
+  return directory.getFileHandle(name, { create });
+};
+
+// Whether anything, file or folder, already sits at `path`
+const exists = async (folder: FileSystemDirectoryHandle, path: string) => {
+  try {
+    await openFile(folder, path, false);
+    return true;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') return false;
+    if (error instanceof DOMException && error.name === 'TypeMismatchError') return true;
+    throw error;
+  }
+};
+
+/**
+ * Writes a PDF to `path` inside the folder, creating subfolders as needed.
+ * A file already there is replaced; OutputFolder.save picks paths where that's intended.
+ */
+export const writeToFolder = async (folder: FileSystemDirectoryHandle, path: string, blob: Blob): Promise<void> => {
+  const writable = await (await openFile(folder, path)).createWritable();
+  try {
+    await blob.stream().pipeTo(writable);
+  } catch (error) {
+    await writable.abort().catch(() => {});
+    throw error;
+  }
+};
+
+/**
+ * Keeps track of the names PDFs got in `folder`, so later runs (a retry, say) number and
+ * suffix them around the ones already saved instead of overwriting them.
+ */
+export const openOutputFolder = (folder: FileSystemDirectoryHandle): OutputFolder => {
+  // Lower-cased like claimUniquePath's, with the path each key was last saved to
+  const taken = new Set<string>();
+  const saved = new Map<string, string>();
+
+  return {
+    name: folder.name,
+    save: async (key, name, blob) => {
+      const previous = saved.get(key)?.toLowerCase();
+      if (previous) taken.delete(previous);
+      let path = name(taken);
+      while (path.toLowerCase() !== previous && await exists(folder, path)) {
+        path = name(taken);
+      }
+      // The PDF saved there before stays on disk
+      if (previous && previous !== path.toLowerCase()) taken.add(previous);
+
+      await writeToFolder(folder, path, blob);
+      saved.set(key, path);
+      return path;
+    },
+  };
+};
+
+/**
+ * Asks where the ZIPs named `fileNames` should go: a save dialog for one, a folder for several.
+ * Without the File System Access API each ZIP is downloaded once it's complete. Browsers block
+ * downloads that don't follow a click, so every part after the first waits for
+ * `confirmDownload` (which should resolve on a click, or reject to stop) before it's saved.
+ * Like pickFolder, call this straight from a click.
+ */
+export const chooseZipDestination = async (
+  fileNames: string[],
+  confirmDownload: (fileName: string) => Promise<void>
+): Promise<ZipDestination> => {
+  if (fileNames.length === 1 && window.showSaveFilePicker) {
+    const handle = await window.showSaveFilePicker({
+      suggestedName: fileNames[0],
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+    });
+    return { open: async () => toSink(await handle.createWritable()) };
+  }
+
+  if (fileNames.length > 1 && window.showDirectoryPicker) {
+    const folder = await pickFolder();
+    return { open: async fileName => toSink(await (await openFile(folder, fileName)).createWritable()) };
+  }
+
+  let opened = 0;
+  return {
+    open: async fileName => {
+      const sink = createBlobSink();
+      const first = opened++ === 0;
+      return {
+        ...sink,
+        close: async () => {
+          const blob = sink.toBlob();
+          if (!first) await confirmDownload(fileName);
+          saveAs(blob, fileName);
+        },
+      };
+    },
+  };
+};
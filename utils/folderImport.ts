@@ -0,0 +1,155 @@
+// Collects files from drops, folder pickers and <input webkitdirectory>, keeping each file's
+// path relative to what the user picked so it can drive grouping and output folders.
+
+export interface ImportedFile {
+  file: File;
+  // e.g. "scans/batch1/page_01.jpg"; just the file name for loose files
+  relativePath: string;
+  // Came from walking a directory rather than being picked individually
+  fromFolder: boolean;
+}
+
+export type SkipReason = 'hidden' | 'not-image';
+
+export interface SkippedFile {
+  path: string;
+  reason: SkipReason;
+}
+
+export interface ImportBatch {
+  files: ImportedFile[];
+  skipped: SkippedFile[];
+}
+
+// The async iteration and picker parts of the File System Access API aren't in TypeScript's DOM lib
+interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterable<FileSystemDirectoryHandle | FileSystemFileHandle>;
+}
+
+declare global {
+  interface Window {
+    // `id` has the browser remember the last folder per purpose; 'readwrite' asks to save into it
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string;
+      types?: { description: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle>;
+  }
+}
+
+// Dotfiles plus the metadata files Windows and macOS scatter through folders
+const HIDDEN_NAMES = new Set(['thumbs.db', 'desktop.ini', '__macosx']);
+
+export const isHiddenName = (name: string) => name.startsWith('.') || HIDDEN_NAMES.has(name.toLowerCase());
+
+const emptyBatch = (): ImportBatch => ({ files: [], skipped: [] });
+
+const mergeBatches = (batches: ImportBatch[]): ImportBatch => ({
+  files: batches.flatMap(b => b.files),
+  skipped: batches.flatMap(b => b.skipped),
+});
+
+const readEntryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries hands back directory contents in chunks (100 at a time in Chrome) until it returns none
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) return entries;
+    entries.push(...chunk);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry, parentPath: string, fromFolder: boolean): Promise<ImportBatch> => {
+  const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+  if (isHiddenName(entry.name)) {
+    return { files: [], skipped: [{ path, reason: 'hidden' }] };
+  }
+
+  if (entry.isFile) {
+    const file = await readEntryFile(entry as FileSystemFileEntry);
+    return { files: [{ file, relativePath: path, fromFolder }], skipped: [] };
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    // Sequential keeps the import in directory order
+    const batches: ImportBatch[] = [];
+    for (const child of children) {
+      batches.push(await walkEntry(child, path, true));
+    }
+    return mergeBatches(batches);
+  }
+
+  return emptyBatch();
+};
+
+/**
+ * Reads a drop, descending into any dropped folders.
+ * Must be called synchronously from the drop handler: the DataTransfer is emptied once it returns.
+ */
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<ImportBatch> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  // Without entry support, fall back to the flat file list
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Promise.resolve(collectInputFiles(Array.from(dataTransfer.files)));
+  }
+
+  return Promise.all(entries.map(entry => walkEntry(entry!, '', false))).then(mergeBatches);
+};
+
+/**
+ * Reads files from an <input>, which carries webkitRelativePath when it's in directory mode.
+ */
+export const collectInputFiles = (fileList: File[]): ImportBatch => {
+  const batch = emptyBatch();
+  fileList.forEach(file => {
+    const relativePath = file.webkitRelativePath || file.name;
+    const fromFolder = Boolean(file.webkitRelativePath);
+    if (fromFolder && relativePath.split('/').some(isHiddenName)) {
+      batch.skipped.push({ path: relativePath, reason: 'hidden' });
+    } else {
+      batch.files.push({ file, relativePath, fromFolder });
+    }
+  });
+  return batch;
+};
+
+const walkDirectoryHandle = async (handle: FileSystemDirectoryHandle, path: string): Promise<ImportBatch> => {
+  const batches: ImportBatch[] = [];
+  for await (const child of (handle as IterableDirectoryHandle).values()) {
+    const childPath = `${path}/${child.name}`;
+    if (isHiddenName(child.name)) {
+      batches.push({ files: [], skipped: [{ path: childPath, reason: 'hidden' }] });
+    } else if (child.kind === 'file') {
+      const file = await (child as FileSystemFileHandle).getFile();
+      batches.push({ files: [{ file, relativePath: childPath, fromFolder: true }], skipped: [] });
+    } else {
+      batches.push(await walkDirectoryHandle(child as FileSystemDirectoryHandle, childPath));
+    }
+  }
+  return mergeBatches(batches);
+};
+
+export const supportsDirectoryPicker = () => typeof window.showDirectoryPicker === 'function';
+
+/**
+ * Opens the File System Access folder picker and reads the chosen folder recursively.
+ * Resolves to null if the user dismisses the picker.
+ */
+export const pickDirectory = async (): Promise<ImportBatch | null> => {
+  try {
+    const handle = await window.showDirectoryPicker!();
+    return await walkDirectoryHandle(handle, handle.name);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+};
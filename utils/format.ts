@@ -0,0 +1,20 @@
+const UNITS = ['B', 'KB', 'MB', 'GB'];
+
+// Human-readable byte count, e.g. "812.4 KB" or "3.21 MB"
+export const formatBytes = (bytes: number): string => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(unit === 1 ? 1 : 2)} ${UNITS[unit]}`;
+};
+
+// Short elapsed time, e.g. "850 ms", "12.4 s" or "3 min 05 s"
+export const formatDuration = (ms: number): string => {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)} min ${String(seconds % 60).padStart(2, '0')} s`;
+};
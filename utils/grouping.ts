@@ -0,0 +1,59 @@
+import { FileGroup, OutputOptions, SourceFile } from '../types';
+
+const DEFAULT_GROUP_NAME = 'merged';
+
+// Directory part of the path the file was imported with, '' for loose files
+export const getFolderPath = (fileData: SourceFile): string => {
+  const relativePath = fileData.relativePath || fileData.file.webkitRelativePath || '';
+  const lastSlash = relativePath.lastIndexOf('/');
+  return lastSlash === -1 ? '' : relativePath.slice(0, lastSlash);
+};
+
+const padIndex = (index: number, total: number) =>
+  String(index).padStart(String(total).length, '0');
+
+/**
+ * Splits the queue into the documents a merge run should produce.
+ * Queue order is preserved both across and within groups.
+ */
+export const groupFiles = <T extends SourceFile>(files: T[], options: OutputOptions): FileGroup<T>[] => {
+  if (files.length === 0) return [];
+
+  switch (options.grouping) {
+    case 'every-n': {
+      const size = Math.max(1, Math.floor(options.groupSize));
+      const count = Math.ceil(files.length / size);
+      if (count === 1) {
+        return [{ name: DEFAULT_GROUP_NAME, files }];
+      }
+      const groups: FileGroup<T>[] = [];
+      for (let i = 0; i < count; i++) {
+        groups.push({
+          name: `${DEFAULT_GROUP_NAME}_${padIndex(i + 1, count)}`,
+          files: files.slice(i * size, (i + 1) * size),
+        });
+      }
+      return groups;
+    }
+
+    case 'folder': {
+      const byFolder = new Map<string, T[]>();
+      files.forEach(f => {
+        const folder = getFolderPath(f);
+        const bucket = byFolder.get(folder);
+        if (bucket) {
+          bucket.push(f);
+        } else {
+          byFolder.set(folder, [f]);
+        }
+      });
+      return Array.from(byFolder.entries()).map(([folder, groupFiles]) => ({
+        name: folder ? folder.replace(/\//g, '_') : DEFAULT_GROUP_NAME,
+        files: groupFiles,
+      }));
+    }
+
+    default:
+      return [{ name: DEFAULT_GROUP_NAME, files }];
+  }
+};
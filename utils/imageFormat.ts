@@ -0,0 +1,122 @@
+import { ImageFormat, RasterStrategy } from '../types';
+import { parseJpegHeader } from './jpegHeader';
+import { getRasterBackend } from './raster';
+
+// Enough bytes to cover every signature checked below
+const SIGNATURE_LENGTH = 26;
+
+// EXIF lives in a single APP1 segment (max 64 KB) near the start of a JPEG
+const EXIF_PROBE_LENGTH = 128 * 1024;
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'avif'];
+
+// Sizes of the DIB headers a BMP can have, from OS/2 BITMAPCOREHEADER to BITMAPV5HEADER
+const BMP_HEADER_SIZES = [12, 40, 52, 56, 108, 124];
+
+export interface FormatDetection {
+  format: ImageFormat | null;
+  // Why the file can't be converted, set when format is null
+  reason?: string;
+}
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+// "BM" alone starts plenty of text files, so the DIB header size after the file header must fit too
+const isBmp = (bytes: Uint8Array) => {
+  if (bytes.length < 26 || ascii(bytes, 0, 2) !== 'BM') return false;
+  const headerSize = new DataView(bytes.buffer, bytes.byteOffset + 14, 4).getUint32(0, true);
+  return BMP_HEADER_SIZES.includes(headerSize);
+};
+
+/**
+ * Identifies the image format from its magic bytes.
+ * The extension and MIME type are ignored since both are routinely wrong for downloaded files.
+ */
+export const detectImageFormat = (bytes: Uint8Array): FormatDetection => {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return { format: 'jpeg' };
+  }
+  if (bytes.length >= 8 && ascii(bytes, 1, 4) === 'PNG' && bytes[0] === 0x89) {
+    return { format: 'png' };
+  }
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') {
+    return { format: 'webp' };
+  }
+  if (bytes.length >= 6 && (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a')) {
+    return { format: 'gif' };
+  }
+  if (isBmp(bytes)) {
+    return { format: 'bmp' };
+  }
+  if (bytes.length >= 12 && ascii(bytes, 4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(bytes, 8, 12))) {
+    return { format: null, reason: 'HEIC/HEIF/AVIF images are not supported' };
+  }
+  if (bytes.length === 0) {
+    return { format: null, reason: 'File is empty' };
+  }
+  return { format: null, reason: 'Not a supported image (JPEG, PNG, WebP, GIF or BMP)' };
+};
+
+export const detectFileFormat = async (file: File): Promise<FormatDetection> => {
+  try {
+    const header = await file.slice(0, SIGNATURE_LENGTH).arrayBuffer();
+    return detectImageFormat(new Uint8Array(header));
+  } catch {
+    return { format: null, reason: 'File could not be read' };
+  }
+};
+
+export const readCaptureTime = async (file: File, format: ImageFormat | null): Promise<number | undefined> => {
+  if (format !== 'jpeg') return undefined;
+  try {
+    const header = await file.slice(0, EXIF_PROBE_LENGTH).arrayBuffer();
+    return parseJpegHeader(new Uint8Array(header))?.capturedAt;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads width and height from a PNG's IHDR chunk, which the spec requires to come first.
+ */
+export const readPngDimensions = (bytes: Uint8Array): { width: number; height: number } | null => {
+  if (bytes.length < 24 || ascii(bytes, 12, 16) !== 'IHDR') return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset + 16, 8);
+  return { width: view.getUint32(0), height: view.getUint32(4) };
+};
+
+/**
+ * Decodes an image the PDF can't embed directly and re-encodes it as PNG or JPEG.
+ * Goes through the raster backend so it also works inside a worker or in Node. Only the first
+ * frame of an animated GIF or WebP is kept.
+ */
+export const rasterizeImage = async (
+  file: Blob,
+  strategy: RasterStrategy,
+  jpegQuality: number
+): Promise<Uint8Array> => {
+  const raster = getRasterBackend();
+  const bitmap = await raster.decode(file);
+  try {
+    const canvas = raster.createCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+
+    // JPEG has no alpha channel; flatten onto white rather than the default black
+    if (strategy === 'jpeg') {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(bitmap, 0, 0);
+
+    const blob = strategy === 'jpeg'
+      ? await raster.encode(canvas, { type: 'image/jpeg', quality: jpegQuality })
+      : await raster.encode(canvas, { type: 'image/png' });
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    bitmap.close();
+  }
+};
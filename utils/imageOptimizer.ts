@@ -0,0 +1,128 @@
+import { OptimizeOptions } from '../types';
+import { MIN_OPTIMIZE_QUALITY } from '../constants';
+import { PX_PER_INCH } from './pageLayout';
+import { getRasterBackend } from './raster';
+
+// Bytes handed to jsPDF for an image, in a format it can embed directly
+export interface EmbeddableImage {
+  data: Uint8Array;
+  type: 'JPEG' | 'PNG';
+}
+
+// How far the target-size mode may go before giving up on the budget; quality stops at
+// MIN_OPTIMIZE_QUALITY
+const QUALITY_STEP = 0.1;
+const MIN_LONG_EDGE = 256;
+const SCALE_STEP = 0.8;
+
+// Luminance threshold for black-and-white output
+const BW_THRESHOLD = 160;
+
+/**
+ * Scale factor (at most 1) that brings an image within the long-edge and DPI limits.
+ * `placedWidth` is the width of the image's box on the page in layout units (96 per inch).
+ */
+export const getOptimizeScale = (
+  width: number,
+  height: number,
+  placedWidth: number,
+  options: OptimizeOptions
+): number => {
+  let scale = 1;
+  if (options.maxLongEdge > 0) {
+    scale = Math.min(scale, options.maxLongEdge / Math.max(width, height));
+  }
+  if (options.targetDpi > 0 && placedWidth > 0) {
+    const placedDpi = width / (placedWidth / PX_PER_INCH);
+    scale = Math.min(scale, options.targetDpi / placedDpi);
+  }
+  return scale;
+};
+
+/**
+ * A file's share of the batch's target size: the whole batch is budgeted, so each file gets a
+ * part proportional to its original size. Undefined when no target is set.
+ */
+export const getByteBudget = (options: OptimizeOptions, fileBytes: number, batchBytes: number): number | undefined =>
+  options.enabled && options.targetSizeMb > 0 && batchBytes > 0
+    ? options.targetSizeMb * 1024 * 1024 * (fileBytes / batchBytes)
+    : undefined;
+
+const encode = async (
+  bitmap: ImageBitmap,
+  scale: number,
+  options: OptimizeOptions,
+  quality: number
+): Promise<EmbeddableImage> => {
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const raster = getRasterBackend();
+  const canvas = raster.createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+
+  // Neither output keeps transparency; flatten onto white rather than the default black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  if (options.colorMode !== 'color') {
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i += 4) {
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      const value = options.colorMode === 'bw' ? (luminance < BW_THRESHOLD ? 0 : 255) : luminance;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+    ctx.putImageData(pixels, 0, 0);
+  }
+
+  // Two-tone pages compress far better (and stay sharp) as PNG
+  const blob = options.colorMode === 'bw'
+    ? await raster.encode(canvas, { type: 'image/png' })
+    : await raster.encode(canvas, { type: 'image/jpeg', quality });
+  return {
+    data: new Uint8Array(await blob.arrayBuffer()),
+    type: options.colorMode === 'bw' ? 'PNG' : 'JPEG',
+  };
+};
+
+/**
+ * Downscales and re-encodes an image to make the PDF smaller.
+ * Pixels are decoded without applying EXIF orientation, so the result can be drawn with the
+ * original's orientation. With a `byteBudget`, quality and then resolution are stepped down until
+ * the image fits or the floor is reached. The original is kept when re-encoding wouldn't shrink it.
+ */
+export const optimizeImage = async (
+  image: EmbeddableImage,
+  scale: number,
+  options: OptimizeOptions,
+  byteBudget?: number
+): Promise<EmbeddableImage> => {
+  const bitmap = await getRasterBackend().decode(new Blob([image.data]), { imageOrientation: 'none' });
+  try {
+    const minScale = Math.min(1, MIN_LONG_EDGE / Math.max(bitmap.width, bitmap.height));
+    let currentScale = Math.min(1, scale);
+    let quality = options.jpegQuality;
+    let result = await encode(bitmap, currentScale, options, quality);
+
+    while (byteBudget && result.data.length > byteBudget) {
+      if (options.colorMode !== 'bw' && quality > MIN_OPTIMIZE_QUALITY) {
+        quality = Math.max(MIN_OPTIMIZE_QUALITY, quality - QUALITY_STEP);
+      } else if (currentScale > minScale) {
+        currentScale = Math.max(minScale, currentScale * SCALE_STEP);
+      } else {
+        break;
+      }
+      result = await encode(bitmap, currentScale, options, quality);
+    }
+
+    const changesPixels = currentScale < 1 || options.colorMode !== 'color';
+    return changesPixels || result.data.length < image.data.length ? result : image;
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,275 @@
+// Minimal JPEG marker walker: reads the frame header, JFIF density and the EXIF
+// Orientation/resolution/capture date tags without decoding any image data.
+
+export interface JpegInfo {
+  // Dimensions as stored in the frame header, before Orientation is applied
+  width: number;
+  height: number;
+  // EXIF Orientation, 1-8 (1 when absent)
+  orientation: number;
+  // Physical resolution in dots per inch, when the file declares one
+  dpiX?: number;
+  dpiY?: number;
+  progressive: boolean;
+  // Hierarchical lossless and arithmetic-coded frames, which few decoders handle
+  lossless: boolean;
+  arithmetic: boolean;
+  // Bits per sample; baseline JPEGs use 8
+  precision: number;
+  // 1 grayscale, 3 YCbCr, 4 CMYK or YCCK
+  components: number;
+  // EXIF DateTimeOriginal (or DateTime), as a local-time timestamp
+  capturedAt?: number;
+}
+
+const CM_PER_INCH = 2.54;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_X_RESOLUTION = 0x011a;
+const TAG_Y_RESOLUTION = 0x011b;
+const TAG_RESOLUTION_UNIT = 0x0128;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC)
+const isStartOfFrame = (marker: number) =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+const isProgressiveFrame = (marker: number) =>
+  marker === 0xc2 || marker === 0xc6 || marker === 0xca || marker === 0xce;
+
+const isLosslessFrame = (marker: number) =>
+  marker === 0xc3 || marker === 0xc7 || marker === 0xcb || marker === 0xcf;
+
+// SOF9 and up
+const isArithmeticFrame = (marker: number) => marker >= 0xc9;
+
+const readAscii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const toDpi = (value: number, unit: number): number | undefined => {
+  if (!(value > 0)) return undefined;
+  if (unit === 1) return value;
+  if (unit === 2) return value * CM_PER_INCH;
+  return undefined;
+};
+
+interface ExifFields {
+  orientation?: number;
+  // Where the Orientation value sits in the file, and its byte order
+  orientationOffset?: number;
+  littleEndian?: boolean;
+  dpiX?: number;
+  dpiY?: number;
+  capturedAt?: number;
+}
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" with no zone
+const parseExifDate = (value: string): number | undefined => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const time = new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+  return Number.isNaN(time) || year === 0 ? undefined : time;
+};
+
+const parseExif = (bytes: Uint8Array, start: number, end: number): ExifFields => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start, end - start);
+  const order = readAscii(bytes, start, 2);
+  if (order !== 'II' && order !== 'MM') return {};
+  const little = order === 'II';
+
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+  const rational = (offset: number) => {
+    const denominator = u32(offset + 4);
+    return denominator ? u32(offset) / denominator : 0;
+  };
+
+  // ASCII values longer than four bytes live at an offset
+  const ascii = (entry: number) => {
+    const count = u32(entry + 4);
+    const dataOffset = count > 4 ? u32(entry + 8) : entry + 8;
+    if (dataOffset + count > view.byteLength) return '';
+    return readAscii(bytes, start + dataOffset, count).replace(/\0+$/, '');
+  };
+
+  const fields: ExifFields = {};
+  let xResolution = 0;
+  let yResolution = 0;
+  // TIFF default unit is inches
+  let resolutionUnit = 2;
+  let dateTime: number | undefined;
+  let dateTimeOriginal: number | undefined;
+
+  const readIfd = (ifdOffset: number, visit: (tag: number, entry: number) => void) => {
+    if (ifdOffset + 2 > view.byteLength) return;
+    const entryCount = u16(ifdOffset);
+    for (let i = 0; i < entryCount; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      if (entry + 12 > view.byteLength) break;
+      visit(u16(entry), entry);
+    }
+  };
+
+  let exifIfdOffset = 0;
+  readIfd(u32(4), (tag, entry) => {
+    const valueOffset = entry + 8;
+
+    switch (tag) {
+      case TAG_ORIENTATION:
+        fields.orientation = u16(valueOffset);
+        fields.orientationOffset = start + valueOffset;
+        fields.littleEndian = little;
+        break;
+      case TAG_RESOLUTION_UNIT:
+        resolutionUnit = u16(valueOffset);
+        break;
+      case TAG_X_RESOLUTION:
+      case TAG_Y_RESOLUTION: {
+        const dataOffset = u32(valueOffset);
+        if (dataOffset + 8 > view.byteLength) break;
+        if (tag === TAG_X_RESOLUTION) {
+          xResolution = rational(dataOffset);
+        } else {
+          yResolution = rational(dataOffset);
+        }
+        break;
+      }
+      case TAG_DATE_TIME:
+        dateTime = parseExifDate(ascii(entry));
+        break;
+      case TAG_EXIF_IFD:
+        exifIfdOffset = u32(valueOffset);
+        break;
+    }
+  });
+
+  if (exifIfdOffset) {
+    readIfd(exifIfdOffset, (tag, entry) => {
+      if (tag === TAG_DATE_TIME_ORIGINAL) {
+        dateTimeOriginal = parseExifDate(ascii(entry));
+      }
+    });
+  }
+  fields.capturedAt = dateTimeOriginal ?? dateTime;
+
+  // EXIF uses 2 for inches and 3 for centimetres; map onto the JFIF convention
+  const unit = resolutionUnit === 2 ? 1 : resolutionUnit === 3 ? 2 : 0;
+  fields.dpiX = toDpi(xResolution, unit);
+  fields.dpiY = toDpi(yResolution, unit);
+  return fields;
+};
+
+type FrameInfo = Pick<JpegInfo, 'width' | 'height' | 'progressive' | 'lossless' | 'arithmetic' | 'precision' | 'components'>;
+
+// Walks the header segments up to the first scan, keeping the ones the callers below need
+const readSegments = (bytes: Uint8Array) => {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let frame: FrameInfo | null = null;
+  let jfif: { dpiX?: number; dpiY?: number } = {};
+  let exif: ExifFields = {};
+  // Where the image data starts, once the walk gets that far
+  let scanStart = -1;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // Start of scan or end of image: no more header segments
+    if (marker === 0xda || marker === 0xd9) {
+      if (marker === 0xda) scanStart = offset;
+      break;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const dataStart = offset + 4;
+    const segmentEnd = offset + 2 + length;
+    if (length < 2 || segmentEnd > bytes.length) break;
+
+    if (marker === 0xe0 && length >= 16 && readAscii(bytes, dataStart, 5) === 'JFIF\0') {
+      const unit = bytes[dataStart + 7];
+      jfif = {
+        dpiX: toDpi((bytes[dataStart + 8] << 8) | bytes[dataStart + 9], unit),
+        dpiY: toDpi((bytes[dataStart + 10] << 8) | bytes[dataStart + 11], unit),
+      };
+    } else if (marker === 0xe1 && length >= 16 && readAscii(bytes, dataStart, 6) === 'Exif\0\0') {
+      try {
+        exif = parseExif(bytes, dataStart + 6, segmentEnd);
+      } catch {
+        // A malformed EXIF block shouldn't make the image unusable
+        exif = {};
+      }
+    } else if (isStartOfFrame(marker) && length >= 8) {
+      frame = {
+        precision: bytes[dataStart],
+        height: (bytes[dataStart + 1] << 8) | bytes[dataStart + 2],
+        width: (bytes[dataStart + 3] << 8) | bytes[dataStart + 4],
+        components: bytes[dataStart + 5],
+        progressive: isProgressiveFrame(marker),
+        lossless: isLosslessFrame(marker),
+        arithmetic: isArithmeticFrame(marker),
+      };
+    }
+
+    offset = segmentEnd;
+  }
+
+  return frame ? { frame, jfif, exif, scanStart } : null;
+};
+
+/**
+ * Reads the header segments of a JPEG up to the first scan.
+ * Returns null if the data isn't a JPEG or ends before a frame header.
+ */
+export const parseJpegHeader = (bytes: Uint8Array): JpegInfo | null => {
+  const segments = readSegments(bytes);
+  if (!segments) return null;
+  const { frame, jfif, exif } = segments;
+
+  const orientation = exif.orientation && exif.orientation >= 1 && exif.orientation <= 8 ? exif.orientation : 1;
+  return {
+    ...frame,
+    orientation,
+    dpiX: exif.dpiX ?? jfif.dpiX,
+    dpiY: exif.dpiY ?? jfif.dpiY,
+    capturedAt: exif.capturedAt,
+  };
+};
+
+/**
+ * Copy of a JPEG with its EXIF Orientation reset to 1, for decoders that always apply it.
+ * Returns the input itself when there's nothing to reset.
+ */
+export const withoutOrientation = (bytes: Uint8Array): Uint8Array => {
+  const exif = readSegments(bytes)?.exif;
+  if (!exif?.orientationOffset || exif.orientation === 1) return bytes;
+  const copy = bytes.slice();
+  new DataView(copy.buffer).setUint16(exif.orientationOffset, 1, exif.littleEndian);
+  return copy;
+};
+
+/**
+ * Whether the image data runs on to an end-of-image marker, i.e. the file wasn't cut short.
+ * Entropy-coded data never contains one, so any after the first scan is the real end.
+ */
+export const hasEndOfImage = (bytes: Uint8Array): boolean => {
+  const scanStart = readSegments(bytes)?.scanStart ?? -1;
+  if (scanStart === -1) return false;
+  for (let i = bytes.length - 2; i > scanStart; i--) {
+    if (bytes[i] === 0xff && bytes[i + 1] === 0xd9) return true;
+  }
+  return false;
+};
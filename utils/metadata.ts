@@ -0,0 +1,44 @@
+import { DocumentInfo, DocumentMetadata, FileGroup, MetadataOptions, SourceFile } from '../types';
+import { expandTemplate, NameContext, stripExtension } from './naming';
+
+const METADATA_FIELDS: (keyof DocumentMetadata)[] = ['title', 'author', 'subject', 'keywords'];
+
+const getNameContext = (file: SourceFile, name: string, index: number): NameContext => ({
+  name,
+  index,
+  date: file.capturedAt ?? file.file.lastModified,
+  width: file.width,
+  height: file.height,
+});
+
+const resolve = (templates: DocumentMetadata, context: NameContext): DocumentMetadata => {
+  const resolved = {} as DocumentMetadata;
+  METADATA_FIELDS.forEach(field => {
+    resolved[field] = expandTemplate(templates[field], context).trim();
+  });
+  return resolved;
+};
+
+/**
+ * Metadata for a file converted on its own: the file's overrides, else the batch templates.
+ * `index` is the file's 1-based position in the queue.
+ */
+export const getFileMetadata = (file: SourceFile, options: MetadataOptions, index: number): DocumentInfo =>
+  resolve({ ...options, ...file.metadata }, getNameContext(file, stripExtension(file.file.name), index));
+
+/**
+ * Metadata for a merged document, from the batch templates with `{name}` as the group's name
+ * and the other tokens describing its first page. Each image gets a bookmark named after its
+ * file, or its title override when it has one.
+ */
+export const getGroupMetadata = (group: FileGroup<SourceFile>, options: MetadataOptions, index: number): DocumentInfo => {
+  const info: DocumentInfo = resolve(options, getNameContext(group.files[0], group.name, index));
+  if (options.bookmarks) {
+    info.bookmarks = group.files.map((file, i) => {
+      const name = stripExtension(file.file.name);
+      const title = file.metadata?.title && expandTemplate(file.metadata.title, getNameContext(file, name, i + 1)).trim();
+      return title || name;
+    });
+  }
+  return info;
+};
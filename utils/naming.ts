@@ -0,0 +1,71 @@
+export interface NameContext {
+  // Source file name without its extension
+  name: string;
+  // 1-based position in the export
+  index: number;
+  date?: number;
+  width?: number;
+  height?: number;
+}
+
+export const NAME_TOKENS = ['{name}', '{index}', '{index:000}', '{date}', '{width}', '{height}'];
+
+// Characters Windows, macOS or ZIP tools refuse in a path segment
+const UNSAFE_CHARS = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+export const stripExtension = (fileName: string) => fileName.replace(/\.[^/.]+$/, "");
+
+// YYYY-MM-DD in local time
+export const formatDate = (time: number) => {
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const sanitizeSegment = (segment: string) =>
+  segment.replace(UNSAFE_CHARS, '_').replace(/^\.+$/, '_').trim();
+
+/**
+ * Replaces the tokens in `template` with values from `context`; unknown tokens are left as-is.
+ * `{index:000}` pads the index to as many digits as there are zeros.
+ */
+export const expandTemplate = (template: string, context: NameContext): string =>
+  template.replace(/\{(\w+)(?::(0+))?\}/g, (token, key: string, padding?: string) => {
+    switch (key) {
+      case 'name':
+        return context.name;
+      case 'index':
+        return padding ? String(context.index).padStart(padding.length, '0') : String(context.index);
+      case 'date':
+        return context.date !== undefined ? formatDate(context.date) : '';
+      case 'width':
+        return context.width !== undefined ? String(context.width) : '';
+      case 'height':
+        return context.height !== undefined ? String(context.height) : '';
+      default:
+        return token;
+    }
+  });
+
+/**
+ * Expands a naming template such as "{index:000}_{name}" into a file name (without extension).
+ */
+export const applyNameTemplate = (template: string, context: NameContext): string =>
+  sanitizeSegment(expandTemplate(template, context)) || sanitizeSegment(context.name) || `file_${context.index}`;
+
+/**
+ * Returns `path` or, if it's already taken, the first free "name (2).ext", "name (3).ext", ...
+ * Comparison ignores case, since most file systems the ZIP gets extracted on do too.
+ */
+export const claimUniquePath = (path: string, taken: Set<string>): string => {
+  const dot = path.lastIndexOf('.');
+  const base = dot > path.lastIndexOf('/') ? path.slice(0, dot) : path;
+  const extension = path.slice(base.length);
+
+  let candidate = path;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
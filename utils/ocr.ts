@@ -0,0 +1,147 @@
+/// <reference types="vite/client" />
+import { createScheduler, createWorker, OEM, Scheduler } from 'tesseract.js';
+import { ImageTransform, OcrLanguage, OcrResult, OcrWord } from '../types';
+
+// Everything Tesseract needs is bundled as a local asset, so OCR works offline
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreSimdUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import engUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import deuUrl from '@tesseract.js-data/deu/4.0.0_best_int/deu.traineddata.gz?url';
+import fraUrl from '@tesseract.js-data/fra/4.0.0_best_int/fra.traineddata.gz?url';
+import spaUrl from '@tesseract.js-data/spa/4.0.0_best_int/spa.traineddata.gz?url';
+
+export const OCR_LANGUAGES: Record<OcrLanguage, string> = {
+  eng: 'English',
+  deu: 'German',
+  fra: 'French',
+  spa: 'Spanish',
+};
+
+const MODEL_URLS: Record<OcrLanguage, string> = {
+  eng: engUrl,
+  deu: deuUrl,
+  fra: fraUrl,
+  spa: spaUrl,
+};
+
+// Each Tesseract worker holds its own copy of the models, so keep the count low
+const MAX_OCR_WORKERS = 2;
+
+// Tesseract gains little from more pixels than this and slows down a lot
+const MAX_OCR_EDGE = 4000;
+
+// Smallest module using a SIMD instruction, as used by wasm-feature-detect
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+
+let scheduler: Promise<Scheduler> | null = null;
+let schedulerLanguages = '';
+
+const loadModel = async (language: OcrLanguage) => {
+  const response = await fetch(MODEL_URLS[language]);
+  if (!response.ok) {
+    throw new Error(`Failed to load OCR model for ${OCR_LANGUAGES[language]}`);
+  }
+  return { code: language, data: new Uint8Array(await response.arrayBuffer()) };
+};
+
+const createOcrScheduler = async (languages: OcrLanguage[]): Promise<Scheduler> => {
+  const models = await Promise.all(languages.map(loadModel));
+  const corePath = WebAssembly.validate(SIMD_PROBE) ? coreSimdUrl : coreUrl;
+  const count = Math.max(1, Math.min(MAX_OCR_WORKERS, Math.floor((navigator.hardwareConcurrency || 2) / 2)));
+
+  const result = createScheduler();
+  const workers = await Promise.all(Array.from({ length: count }, () =>
+    createWorker(models, OEM.LSTM_ONLY, {
+      workerPath: workerUrl,
+      corePath,
+      workerBlobURL: false,
+      // The models are already local; caching them again in IndexedDB would only duplicate them
+      cacheMethod: 'none',
+    })
+  ));
+  workers.forEach(worker => result.addWorker(worker));
+  return result;
+};
+
+// Reuses the running workers unless the languages changed
+const getScheduler = (languages: OcrLanguage[]): Promise<Scheduler> => {
+  const key = [...languages].sort().join('+');
+  if (!scheduler || key !== schedulerLanguages) {
+    terminateOcr();
+    schedulerLanguages = key;
+    scheduler = createOcrScheduler(languages);
+    scheduler.catch(() => {
+      scheduler = null;
+    });
+  }
+  return scheduler;
+};
+
+export const terminateOcr = () => {
+  scheduler?.then(s => s.terminate()).catch(() => undefined);
+  scheduler = null;
+};
+
+/**
+ * Draws the image the way it ends up on the page: EXIF orientation applied by the decoder,
+ * then the user's rotation and flips. OCR boxes then line up with the placed image directly.
+ */
+const renderUpright = async (file: Blob, transform?: ImageTransform): Promise<OffscreenCanvas> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scale = Math.min(1, MAX_OCR_EDGE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const rotation = transform?.rotation ?? 0;
+    const swap = rotation === 90 || rotation === 270;
+
+    const canvas = new OffscreenCanvas(swap ? height : width, swap ? width : height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // Canvas transforms apply last-to-first: rotate, then flip, then move into place
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.scale(transform?.flipH ? -1 : 1, transform?.flipV ? -1 : 1);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(bitmap, -width / 2, -height / 2, width, height);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Recognises the text in an image with the bundled Tesseract models.
+ * Tesseract can't be interrupted, so an aborted signal only discards the result.
+ */
+export const recognizeImage = async (
+  file: Blob,
+  languages: OcrLanguage[],
+  transform?: ImageTransform,
+  signal?: AbortSignal
+): Promise<OcrResult> => {
+  const [ocr, canvas] = await Promise.all([getScheduler(languages), renderUpright(file, transform)]);
+  signal?.throwIfAborted();
+
+  const image = await canvas.convertToBlob({ type: 'image/png' });
+  const { data } = await ocr.addJob('recognize', image, {}, { blocks: true, text: false });
+  signal?.throwIfAborted();
+
+  const words: OcrWord[] = [];
+  data.blocks?.forEach(block => block.paragraphs.forEach(paragraph => paragraph.lines.forEach(line =>
+    line.words.forEach(word => {
+      const text = word.text.trim();
+      if (text) {
+        words.push({ text, x0: word.bbox.x0, y0: word.bbox.y0, x1: word.bbox.x1, y1: word.bbox.y1 });
+      }
+    })
+  )));
+
+  return { words, confidence: data.confidence, width: canvas.width, height: canvas.height };
+};
@@ -0,0 +1,52 @@
+import { ImageTransform } from '../types';
+
+// Each EXIF orientation as the 2x2 matrix [a, b, c, d] taking raw pixel coordinates to display
+// coordinates, both centred with x right and y down
+const ORIENTATION_MATRICES: Record<number, number[]> = {
+  1: [1, 0, 0, 1],
+  2: [-1, 0, 0, 1],
+  3: [-1, 0, 0, -1],
+  4: [1, 0, 0, -1],
+  5: [0, 1, 1, 0],
+  6: [0, -1, 1, 0],
+  7: [0, -1, -1, 0],
+  8: [0, 1, -1, 0],
+};
+
+const ROTATE_CW = [0, -1, 1, 0];
+const FLIP_H = [-1, 0, 0, 1];
+const FLIP_V = [1, 0, 0, -1];
+
+const multiply = ([a, b, c, d]: number[], [e, f, g, h]: number[]) =>
+  [a * e + b * g, a * f + b * h, c * e + d * g, c * f + d * h];
+
+// Orientations 5-8 rotate by a quarter turn, so width and height trade places
+export const isQuarterTurn = (orientation: number) => orientation >= 5 && orientation <= 8;
+
+/**
+ * Folds a user rotation/flip, applied on top of the upright image, into its EXIF orientation.
+ * The result is again one of the eight orientations, so it can be drawn without re-encoding.
+ */
+export const composeOrientation = (orientation: number, transform?: ImageTransform): number => {
+  if (!transform) return orientation;
+
+  let matrix = ORIENTATION_MATRICES[orientation] ?? ORIENTATION_MATRICES[1];
+  for (let turns = transform.rotation / 90; turns > 0; turns--) {
+    matrix = multiply(ROTATE_CW, matrix);
+  }
+  if (transform.flipH) matrix = multiply(FLIP_H, matrix);
+  if (transform.flipV) matrix = multiply(FLIP_V, matrix);
+
+  const match = Object.entries(ORIENTATION_MATRICES).find(([, m]) => m.every((v, i) => v === matrix[i]));
+  return match ? Number(match[0]) : orientation;
+};
+
+// CSS equivalent of a transform, for previews (browsers already apply EXIF orientation to <img>)
+export const toCssTransform = (transform?: ImageTransform): string | undefined => {
+  if (!transform) return undefined;
+  const parts: string[] = [];
+  if (transform.flipH) parts.push('scaleX(-1)');
+  if (transform.flipV) parts.push('scaleY(-1)');
+  if (transform.rotation) parts.push(`rotate(${transform.rotation}deg)`);
+  return parts.length > 0 ? parts.join(' ') : undefined;
+};
@@ -0,0 +1,125 @@
+import { LayoutOptions, PageSize } from '../types';
+
+// Documents are built in jsPDF 'px' units with the px_scaling hotfix, i.e. 96 units per inch
+export const PX_PER_INCH = 96;
+const MM_PER_INCH = 25.4;
+
+// Portrait paper sizes in millimetres
+const PAPER_SIZES_MM: Record<Exclude<PageSize, 'image'>, [number, number]> = {
+  a4: [210, 297],
+  letter: [215.9, 279.4],
+  legal: [215.9, 355.6],
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Declared resolution of an image, in display orientation
+export interface ImageResolution {
+  dpiX: number;
+  dpiY: number;
+}
+
+export interface PageLayout {
+  pageWidth: number;
+  pageHeight: number;
+  orientation: 'p' | 'l';
+  // Where the image is drawn; may extend past the page for 'fill' and 'actual'
+  image: Rect;
+  // Content box the image must be clipped to, null when it can't overflow
+  clip: Rect | null;
+}
+
+export const mmToPx = (mm: number) => (mm / MM_PER_INCH) * PX_PER_INCH;
+
+const centerIn = (box: Rect, width: number, height: number): Rect => ({
+  x: box.x + (box.width - width) / 2,
+  y: box.y + (box.height - height) / 2,
+  width,
+  height,
+});
+
+/**
+ * Works out the page box and image placement for an image of the given pixel size.
+ * `resolution` is only consulted when layout.useImageDpi is set; without it a pixel
+ * is one px unit (96 dpi). All returned values are in document px units.
+ */
+export const computePageLayout = (
+  imageWidth: number,
+  imageHeight: number,
+  layout: LayoutOptions,
+  resolution?: ImageResolution
+): PageLayout => {
+  const declared = layout.useImageDpi ? resolution : undefined;
+
+  if (layout.pageSize === 'image') {
+    const width = declared ? imageWidth * (PX_PER_INCH / declared.dpiX) : imageWidth;
+    const height = declared ? imageHeight * (PX_PER_INCH / declared.dpiY) : imageHeight;
+    return {
+      pageWidth: width,
+      pageHeight: height,
+      orientation: width > height ? 'l' : 'p',
+      image: { x: 0, y: 0, width, height },
+      clip: null,
+    };
+  }
+
+  const [shortMm, longMm] = PAPER_SIZES_MM[layout.pageSize];
+  const landscape = layout.orientation === 'auto'
+    ? imageWidth > imageHeight
+    : layout.orientation === 'landscape';
+  const pageWidth = mmToPx(landscape ? longMm : shortMm);
+  const pageHeight = mmToPx(landscape ? shortMm : longMm);
+
+  // Never let margins swallow the whole page
+  const margin = Math.min(mmToPx(Math.max(0, layout.marginMm)), pageWidth / 2 - 1, pageHeight / 2 - 1);
+  const box: Rect = {
+    x: margin,
+    y: margin,
+    width: pageWidth - margin * 2,
+    height: pageHeight - margin * 2,
+  };
+
+  const fitScale = Math.min(box.width / imageWidth, box.height / imageHeight);
+  let image: Rect;
+  let clip: Rect | null = null;
+
+  switch (layout.placement) {
+    case 'fill': {
+      const scale = Math.max(box.width / imageWidth, box.height / imageHeight);
+      image = centerIn(box, imageWidth * scale, imageHeight * scale);
+      clip = box;
+      break;
+    }
+    case 'center': {
+      // Original size at screen resolution, shrunk only when it wouldn't fit
+      const scale = Math.min(1, fitScale);
+      image = centerIn(box, imageWidth * scale, imageHeight * scale);
+      break;
+    }
+    case 'actual': {
+      // The file's own resolution wins over the chosen DPI when it's being honoured
+      const dpiX = declared?.dpiX ?? Math.max(1, layout.dpi);
+      const dpiY = declared?.dpiY ?? Math.max(1, layout.dpi);
+      image = centerIn(box, imageWidth * (PX_PER_INCH / dpiX), imageHeight * (PX_PER_INCH / dpiY));
+      if (image.width > box.width || image.height > box.height) {
+        clip = box;
+      }
+      break;
+    }
+    default:
+      image = centerIn(box, imageWidth * fitScale, imageHeight * fitScale);
+  }
+
+  return {
+    pageWidth,
+    pageHeight,
+    orientation: landscape ? 'l' : 'p',
+    image,
+    clip,
+  };
+};
@@ -1,56 +1,359 @@
-import { jsPDF } from 'jspdf';
-import JSZip from 'jszip';
-import { FileData } from '../types';
-
-export const getImageDimensions = (url: string): Promise<{ width: number; height: number }> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
-    img.onerror = reject;
-    img.src = url;
-  });
+import { EncryptionOptions, jsPDF } from 'jspdf';
+import {
+  ConversionOptions, InputOptions, ImageSource, PageInfo, ConversionResult, DocumentInfo, MetadataOptions,
+  SecurityOptions, OcrResult, StampNumbering,
+} from '../types';
+import { rasterizeImage, readPngDimensions } from './imageFormat';
+import { computePageLayout, ImageResolution, PageLayout, Rect } from './pageLayout';
+import { parseJpegHeader } from './jpegHeader';
+import { composeOrientation, isQuarterTurn } from './orientation';
+import { EmbeddableImage, getOptimizeScale, optimizeImage } from './imageOptimizer';
+import { applyStamp } from './stamp';
+import { getRasterBackend } from './raster';
+
+/**
+ * Pixel size of a JPEG or PNG read from its header, falling back to a full decode.
+ * Avoids `new Image()` so it can run inside a worker or in Node.
+ */
+export const getImageDimensions = async (
+  bytes: Uint8Array,
+  type: 'JPEG' | 'PNG'
+): Promise<{ width: number; height: number }> => {
+  const header = type === 'JPEG' ? parseJpegHeader(bytes) : readPngDimensions(bytes);
+  if (header) {
+    return { width: header.width, height: header.height };
+  }
+
+  const bitmap = await getRasterBackend().decode(new Blob([bytes]));
+  const dimensions = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return dimensions;
 };
 
-export const convertImageToPDF = async (fileData: FileData): Promise<Blob> => {
-  try {
-    const { width, height } = await getImageDimensions(fileData.previewUrl);
-    
-    // Create PDF with exact image dimensions (1px = 1 unit)
-    const orientation = width > height ? 'l' : 'p';
-    const pdf = new jsPDF({
-      orientation,
-      unit: 'px',
-      format: [width, height],
-      hotfixes: ['px_scaling'],
+/**
+ * Resolves the bytes handed to jsPDF for an image.
+ * JPEG streams are embedded untouched (DCTDecode) and PNG is stored losslessly as Flate with its
+ * alpha channel as a soft mask; anything else is decoded through a canvas first.
+ */
+const getEmbeddableImage = async (source: ImageSource, options: InputOptions): Promise<EmbeddableImage> => {
+  switch (source.format) {
+    // CRITICAL FOR LOSSLESS: Pass the raw bytes with their real format.
+    // This prevents jsPDF from re-compressing the image.
+    case 'jpeg':
+      return { data: source.bytes, type: 'JPEG' };
+    case 'png':
+      return { data: source.bytes, type: 'PNG' };
+    case 'webp':
+    case 'gif':
+    case 'bmp':
+      return {
+        data: await rasterizeImage(new Blob([source.bytes]), options.rasterStrategy, options.jpegQuality),
+        type: options.rasterStrategy === 'jpeg' ? 'JPEG' : 'PNG',
+      };
+    default:
+      throw new Error(`Unsupported image format: ${source.name}`);
+  }
+};
+
+interface ImageGeometry {
+  // Size as displayed, i.e. after EXIF Orientation
+  width: number;
+  height: number;
+  orientation: number;
+  resolution?: ImageResolution;
+}
+
+/**
+ * Measures the image the way it will be embedded, with the user's rotate/flip folded into its orientation.
+ * EXIF orientation and resolution only come from original JPEGs; re-encoded images are already upright.
+ */
+const getImageGeometry = async (source: ImageSource, image: EmbeddableImage): Promise<ImageGeometry> => {
+  const jpeg = source.format === 'jpeg' ? parseJpegHeader(image.data) : null;
+  const { width, height } = jpeg ?? await getImageDimensions(image.data, image.type);
+  const orientation = composeOrientation(jpeg?.orientation ?? 1, source.transform);
+
+  const swap = isQuarterTurn(orientation);
+  const resolution = jpeg?.dpiX && jpeg.dpiY
+    ? { dpiX: swap ? jpeg.dpiY : jpeg.dpiX, dpiY: swap ? jpeg.dpiX : jpeg.dpiY }
+    : undefined;
+  return {
+    width: swap ? height : width,
+    height: swap ? width : height,
+    orientation,
+    resolution,
+  };
+};
+
+// For each EXIF orientation, display coordinates (s, t) as affine functions of the raw image's
+// unit square (u, v), both with the origin bottom-left: [su, sv, s0, tu, tv, t0]
+const ORIENTATION_TRANSFORMS: Record<number, number[]> = {
+  2: [-1, 0, 1, 0, 1, 0],
+  3: [-1, 0, 1, 0, -1, 1],
+  4: [1, 0, 0, 0, -1, 1],
+  5: [0, -1, 1, -1, 0, 1],
+  6: [0, 1, 0, -1, 0, 1],
+  7: [0, 1, 0, 1, 0, 0],
+  8: [0, -1, 1, 1, 0, 0],
+};
+
+/**
+ * Draws the raw image stream rotated/mirrored into `rect` via the content stream's transformation
+ * matrix, so the JPEG bytes are embedded as-is regardless of orientation.
+ */
+const drawOrientedImage = (pdf: jsPDF, image: EmbeddableImage, rect: Rect, orientation: number) => {
+  const k = pdf.internal.scaleFactor;
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const [su, sv, s0, tu, tv, t0] = ORIENTATION_TRANSFORMS[orientation];
+
+  // Target box in PDF user space (points, y up)
+  const x = rect.x * k;
+  const y = (pageHeight - rect.y - rect.height) * k;
+  const w = rect.width * k;
+  const h = rect.height * k;
+
+  pdf.saveGraphicsState();
+  pdf.setCurrentTransformationMatrix(
+    pdf.Matrix(w * su, h * tu, w * sv, h * tv, x + w * s0, y + h * t0)
+  );
+  // Under that matrix, a one-point square at the page's bottom-left is exactly the image's unit square
+  pdf.addImage(image.data, image.type, 0, pageHeight - 1 / k, 1 / k, 1 / k, undefined, 'FAST');
+  pdf.restoreGraphicsState();
+};
+
+/**
+ * Writes recognised words as invisible text (rendering mode 3) over the image, each word sized
+ * and horizontally scaled to cover its box, so search hits and selections land on the right spot.
+ */
+const drawTextLayer = (pdf: jsPDF, ocr: OcrResult, rect: Rect) => {
+  const k = pdf.internal.scaleFactor;
+  const scaleX = rect.width / ocr.width;
+  const scaleY = rect.height / ocr.height;
+
+  pdf.setFont('helvetica', 'normal');
+  ocr.words.forEach(word => {
+    const width = (word.x1 - word.x0) * scaleX;
+    const height = (word.y1 - word.y0) * scaleY;
+    if (width <= 0 || height <= 0) return;
+
+    pdf.setFontSize(height * k);
+    const naturalWidth = pdf.getTextWidth(word.text);
+    if (naturalWidth <= 0) return;
+    // The box's bottom edge stands in for the baseline; descenders only make it a little low
+    pdf.text(word.text, rect.x + word.x0 * scaleX, rect.y + word.y1 * scaleY, {
+      renderingMode: 'invisible',
+      horizontalScale: width / naturalWidth,
     });
+  });
+};
+
+// Owner password for documents that restrict permissions without setting one
+const randomPassword = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * jsPDF only implements the original standard security handler (40-bit RC4, revision 2),
+ * which keeps casual readers out but won't stand up to a determined attacker.
+ */
+const getEncryption = (security: SecurityOptions): EncryptionOptions | undefined => {
+  if (!security.enabled) return undefined;
+  // The handler pads and hashes passwords as single-byte strings
+  if (!/^[\x20-\x7e]*$/.test(security.userPassword + security.ownerPassword)) {
+    throw new Error('PDF passwords may only contain printable ASCII characters');
+  }
+  return {
+    userPassword: security.userPassword,
+    // With an empty owner password any reader could lift the restrictions
+    ownerPassword: security.ownerPassword || randomPassword(),
+    userPermissions: security.permissions,
+  };
+};
+
+// Fills the current page with the prepared image and its text layer
+const drawPage = (pdf: jsPDF, image: EmbeddableImage, geometry: ImageGeometry, layout: PageLayout, ocr?: OcrResult) => {
+  if (layout.clip) {
+    pdf.saveGraphicsState();
+    pdf.rect(layout.clip.x, layout.clip.y, layout.clip.width, layout.clip.height, null);
+    pdf.clip();
+    pdf.discardPath();
+  }
 
-    // CRITICAL FOR LOSSLESS: Read the file as a raw buffer.
-    // Passing the raw Uint8Array with 'JPEG' format prevents jsPDF from re-compressing the image.
-    const arrayBuffer = await fileData.file.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-    
+  if (geometry.orientation !== 1) {
+    drawOrientedImage(pdf, image, layout.image, geometry.orientation);
+  } else {
     // 'FAST' or 'NONE' tells jsPDF to avoid re-compression if possible when format matches.
     // For raw JPEG data, this simply embeds the stream.
-    pdf.addImage(uint8Array, 'JPEG', 0, 0, width, height, undefined, 'FAST');
-    
-    return pdf.output('blob');
-  } catch (error) {
-    console.error(`Error converting ${fileData.file.name}:`, error);
-    throw error;
+    const { x, y, width, height } = layout.image;
+    pdf.addImage(image.data, image.type, x, y, width, height, undefined, 'FAST');
+  }
+
+  if (ocr) {
+    drawTextLayer(pdf, ocr, layout.image);
+  }
+
+  if (layout.clip) {
+    pdf.restoreGraphicsState();
   }
 };
 
-export const createZipFromFiles = async (files: FileData[]): Promise<Blob> => {
-  const zip = new JSZip();
-  const folder = zip.folder("converted_pdfs");
+/**
+ * Adds the image as a new page laid out according to `options.layout`.
+ * Starts a new document when `pdf` is null so single and merged output share one code path.
+ */
+const addImagePage = async (
+  pdf: jsPDF | null,
+  source: ImageSource,
+  options: ConversionOptions
+): Promise<{ pdf: jsPDF; page: PageInfo }> => {
+  let image = await getEmbeddableImage(source, options.input);
+  const geometry = await getImageGeometry(source, image);
 
-  files.forEach((file) => {
-    if (file.pdfBlob) {
-      // Replace extension with .pdf
-      const fileName = file.file.name.replace(/\.[^/.]+$/, "") + ".pdf";
-      folder?.file(fileName, file.pdfBlob);
+  // With the 'image' page size this is the exact image dimensions (1px = 1 unit at 96 dpi)
+  const layout = computePageLayout(geometry.width, geometry.height, options.layout, geometry.resolution);
+
+  // Laid out from the original so downscaling never changes the page, only the pixels on it
+  if (options.optimize.enabled) {
+    const scale = getOptimizeScale(geometry.width, geometry.height, layout.image.width, options.optimize);
+    image = await optimizeImage(image, scale, options.optimize, source.byteBudget);
+  }
+
+  const format = [layout.pageWidth, layout.pageHeight];
+  if (!pdf) {
+    // A document whose first page fails is simply dropped
+    pdf = new jsPDF({
+      orientation: layout.orientation,
+      unit: 'px',
+      format,
+      hotfixes: ['px_scaling'],
+      encryption: getEncryption(options.security),
+    });
+    drawPage(pdf, image, geometry, layout, source.ocr);
+  } else {
+    pdf.addPage(format, layout.orientation);
+    try {
+      drawPage(pdf, image, geometry, layout, source.ocr);
+    } catch (error) {
+      // jsPDF only parses the image when it's drawn; take the page back out so no blank page
+      // is left behind and the following bookmarks and labels keep their numbers
+      pdf.deletePage(pdf.getNumberOfPages());
+      throw error;
     }
+  }
+
+  return { pdf, page: { width: geometry.width, height: geometry.height, imageBytes: image.data.length } };
+};
+
+const setDocumentInfo = (pdf: jsPDF, info: DocumentInfo) => {
+  pdf.setDocumentProperties({
+    title: info.title,
+    subject: info.subject,
+    author: info.author,
+    keywords: info.keywords,
   });
+};
 
-  return await zip.generateAsync({ type: "blob" });
-};
\ No newline at end of file
+// The parts of jsPDF's serialiser used to add objects it has no API for
+interface PdfWriter {
+  newObject: () => number;
+  write: (...lines: string[]) => void;
+}
+
+/**
+ * A PDF text string as a hex string: PDFDocEncoding when it fits, otherwise UTF-16BE with a byte
+ * order mark. PDFDocEncoding agrees with Latin-1 for printable ASCII and 0xA1-0xFF, except 0xAD
+ * (undefined there); 0xA0 is the Euro sign, so a no-break space or soft hyphen needs UTF-16.
+ * `encrypt` runs over the encoded bytes, as every string in an encrypted document must be
+ * encrypted with its object's key.
+ */
+const pdfTextString = (value: string, encrypt: (data: string) => string) => {
+  const encoded = /^[\x20-\x7e\xa1-\xac\xae-\xff]*$/.test(value)
+    ? value
+    // UTF-16 code units, so characters outside the BMP keep both halves of their surrogate pair
+    : '\xfe\xff' + value.split('').map(c => c.charCodeAt(0))
+      .flatMap(unit => [unit >> 8, unit & 0xff])
+      .map(byte => String.fromCharCode(byte))
+      .join('');
+  // A hex string needs no escaping, whatever bytes encryption produces
+  const hex = Array.from(encrypt(encoded), c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+  return `<${hex}>`;
+};
+
+/**
+ * Adds a /PageLabels entry numbering every page in one style, starting at 1.
+ * jsPDF has no API for it, so the number tree is written as its own object with the resources
+ * (where its prefix can be encrypted with that object's key) and referenced from the catalog.
+ */
+const setPageLabels = (pdf: jsPDF, options: MetadataOptions) => {
+  if (options.pageLabels === 'none') return;
+  const writer = pdf.internal as unknown as PdfWriter;
+  let labelsId = 0;
+  pdf.internal.events.subscribe('postPutResources', () => {
+    labelsId = writer.newObject();
+    const prefix = options.pageLabelPrefix
+      ? ` /P ${pdfTextString(options.pageLabelPrefix, pdf.internal.getEncryptor(labelsId))}`
+      : '';
+    writer.write(`<< /Nums [0 << /S /${options.pageLabels}${prefix} >>] >>`);
+    writer.write('endobj');
+  });
+  pdf.internal.events.subscribe('putCatalog', () => {
+    writer.write(`/PageLabels ${labelsId} 0 R`);
+  });
+};
+
+export const convertImageToPDF = async (
+  source: ImageSource,
+  options: ConversionOptions,
+  info?: DocumentInfo,
+  // The image's place in the batch, for stamps numbered across separate PDFs
+  numbering?: StampNumbering
+): Promise<ConversionResult> => {
+  const { pdf, page } = await addImagePage(null, source, options);
+  applyStamp(pdf, options.stamp, [source.name], numbering);
+  if (info) setDocumentInfo(pdf, info);
+  return { pdfBlob: pdf.output('blob'), ...page };
+};
+
+/**
+ * Builds one document with a page per image, in the order given.
+ * Images that fail are skipped and reported through `onPage` by their index;
+ * resolves to null if no page could be added. Bookmarks in `info` point at whichever page
+ * their image ended up on.
+ */
+export const mergeImagesToPDF = async (
+  sources: ImageSource[],
+  options: ConversionOptions,
+  onPage?: (index: number, error?: unknown, page?: PageInfo) => void,
+  info?: DocumentInfo,
+  // Awaited before each page, e.g. to hold the job while the run is paused
+  beforePage?: () => Promise<void>
+): Promise<Blob | null> => {
+  let pdf: jsPDF | null = null;
+  // Source file of each page added, for the stamp's {filename}
+  const pageSources: string[] = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    await beforePage?.();
+    try {
+      const added = await addImagePage(pdf, sources[i], options);
+      if (!pdf) {
+        setPageLabels(added.pdf, options.metadata);
+        if (info?.bookmarks) added.pdf.setDisplayMode(null, null, 'UseOutlines');
+      }
+      pdf = added.pdf;
+      pageSources.push(sources[i].name);
+      const title = info?.bookmarks?.[i];
+      if (title) {
+        pdf.outline.add(null, title, { pageNumber: pdf.getNumberOfPages() });
+      }
+      onPage?.(i, undefined, added.page);
+    } catch (error) {
+      onPage?.(i, error);
+    }
+  }
+
+  if (!pdf) return null;
+  applyStamp(pdf, options.stamp, pageSources);
+  if (info) setDocumentInfo(pdf, info);
+  return pdf.output('blob');
+};
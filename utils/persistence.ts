@@ -0,0 +1,236 @@
+import { ConversionOptions, ConversionStatus, FileData, MergedOutput, ProcessingStats } from '../types';
+import { DEFAULT_OPTIONS } from '../constants';
+import { Preset } from './presets';
+
+// Keeps the queue, its results and the settings in IndexedDB so a reload doesn't lose a batch.
+// Original files are written once when added; everything else is rewritten only when it changes.
+
+const DB_NAME = 'batchsnap';
+const DB_VERSION = 2;
+
+// id -> original File
+const SOURCES_STORE = 'sources';
+// id -> StoredItem
+const ITEMS_STORE = 'items';
+// key -> value, for the SessionState fields
+const SESSION_STORE = 'session';
+// id -> Preset; kept apart from the session so purging saved data leaves presets alone
+const PRESETS_STORE = 'presets';
+
+// A queue entry without the parts that can't or needn't be stored
+type StoredItem = Omit<FileData, 'file' | 'previewUrl'>;
+
+interface SessionState {
+  // Queue order, as item ids
+  order: string[];
+  options: ConversionOptions;
+  stats: ProcessingStats;
+  mergedOutputs: MergedOutput[];
+}
+
+export type SessionKey = Exclude<keyof SessionState, 'order'>;
+
+export interface RestoredSession {
+  files: FileData[];
+  options?: ConversionOptions;
+  stats?: ProcessingStats;
+  mergedOutputs?: MergedOutput[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SOURCES_STORE);
+          db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+          db.createObjectStore(SESSION_STORE);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. once the user leaves private browsing
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const toStoredItem = ({ file: _file, previewUrl: _previewUrl, ...item }: FileData): StoredItem => item;
+
+// Fills in settings added since the session was saved
+const withDefaults = (options: ConversionOptions): ConversionOptions => ({
+  input: { ...DEFAULT_OPTIONS.input, ...options.input },
+  optimize: { ...DEFAULT_OPTIONS.optimize, ...options.optimize },
+  ocr: { ...DEFAULT_OPTIONS.ocr, ...options.ocr },
+  cleanup: { ...DEFAULT_OPTIONS.cleanup, ...options.cleanup },
+  layout: { ...DEFAULT_OPTIONS.layout, ...options.layout },
+  output: { ...DEFAULT_OPTIONS.output, ...options.output },
+  metadata: { ...DEFAULT_OPTIONS.metadata, ...options.metadata },
+  stamp: { ...DEFAULT_OPTIONS.stamp, ...options.stamp },
+  security: { ...DEFAULT_OPTIONS.security, ...options.security },
+  export: { ...DEFAULT_OPTIONS.export, ...options.export },
+});
+
+// Copy of the options that is safe to write anywhere: passwords never leave memory
+export const omitPasswords = (options: ConversionOptions): ConversionOptions => ({
+  ...options,
+  security: { ...options.security, userPassword: '', ownerPassword: '' },
+});
+
+/**
+ * Reads the saved session back, in queue order, with new preview URLs.
+ * Items the reload interrupted mid-conversion go back to QUEUED so the next run picks them up.
+ */
+export const loadSession = async (): Promise<RestoredSession> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SOURCES_STORE, ITEMS_STORE, SESSION_STORE], 'readonly');
+  const session = tx.objectStore(SESSION_STORE);
+  const sourceStore = tx.objectStore(SOURCES_STORE);
+
+  // All requests go out together: the transaction closes once nothing is pending
+  const [items, sourceIds, sourceFiles, order, options, stats, mergedOutputs] = await Promise.all([
+    requestResult(tx.objectStore(ITEMS_STORE).getAll() as IDBRequest<StoredItem[]>),
+    requestResult(sourceStore.getAllKeys()),
+    requestResult(sourceStore.getAll() as IDBRequest<File[]>),
+    requestResult(session.get('order') as IDBRequest<string[] | undefined>),
+    requestResult(session.get('options') as IDBRequest<ConversionOptions | undefined>),
+    requestResult(session.get('stats') as IDBRequest<ProcessingStats | undefined>),
+    requestResult(session.get('mergedOutputs') as IDBRequest<MergedOutput[] | undefined>),
+  ]);
+  const sources = new Map(sourceIds.map((id, i) => [id as string, sourceFiles[i]]));
+
+  const position = new Map((order ?? []).map((id, i) => [id, i]));
+  const files: FileData[] = [];
+  items.forEach(item => {
+    const file = sources.get(item.id);
+    // The browser may have evicted the original; the entry is useless without it
+    if (!file) return;
+    files.push({
+      ...item,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: item.status === ConversionStatus.PROCESSING ? ConversionStatus.QUEUED : item.status,
+    });
+  });
+  files.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+
+  return {
+    files,
+    options: options && withDefaults(options),
+    stats,
+    mergedOutputs,
+  };
+};
+
+/**
+ * Writes the queue's changes since `previous` (the last saved snapshot, by id):
+ * new originals, changed or removed items, and the order.
+ * Items are compared by identity, which works because state updates always replace them.
+ */
+export const saveFiles = async (files: FileData[], previous: Map<string, FileData>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SOURCES_STORE, ITEMS_STORE, SESSION_STORE], 'readwrite');
+  const sources = tx.objectStore(SOURCES_STORE);
+  const items = tx.objectStore(ITEMS_STORE);
+
+  const current = new Set<string>();
+  files.forEach(f => {
+    current.add(f.id);
+    const saved = previous.get(f.id);
+    if (!saved) {
+      sources.put(f.file, f.id);
+    }
+    if (saved !== f) {
+      items.put(toStoredItem(f));
+    }
+  });
+  previous.forEach((_, id) => {
+    if (!current.has(id)) {
+      sources.delete(id);
+      items.delete(id);
+    }
+  });
+  tx.objectStore(SESSION_STORE).put(files.map(f => f.id), 'order');
+
+  await transactionDone(tx);
+};
+
+export const saveSessionValue = async <K extends SessionKey>(key: K, value: SessionState[K]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+// Deletes everything saved, originals and results included
+export const purgeSession = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SOURCES_STORE, ITEMS_STORE, SESSION_STORE], 'readwrite');
+  tx.objectStore(SOURCES_STORE).clear();
+  tx.objectStore(ITEMS_STORE).clear();
+  tx.objectStore(SESSION_STORE).clear();
+  await transactionDone(tx);
+};
+
+// Saved presets, with settings added since they were saved filled in
+export const loadPresets = async (): Promise<Preset[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PRESETS_STORE, 'readonly');
+  const presets = await requestResult(tx.objectStore(PRESETS_STORE).getAll() as IDBRequest<Preset[]>);
+  return presets.map(preset => ({ ...preset, options: withDefaults(preset.options) }));
+};
+
+export const savePreset = async (preset: Preset): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PRESETS_STORE, 'readwrite');
+  tx.objectStore(PRESETS_STORE).put({ ...preset, options: omitPasswords(preset.options) });
+  await transactionDone(tx);
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PRESETS_STORE, 'readwrite');
+  tx.objectStore(PRESETS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * How much of the origin's quota is in use, or null where the browser doesn't say.
+ * Also asks for persistent storage so a large batch isn't evicted under storage pressure.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  if (navigator.storage.persisted && !(await navigator.storage.persisted())) {
+    await navigator.storage.persist().catch(() => false);
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
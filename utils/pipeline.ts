@@ -0,0 +1,234 @@
+import {
+  ConversionOptions, ConversionWarning, DocumentMetadata, ErrorCategory, ImageFormat, ImageSource, ImageTransform,
+  MergedOutput, Quad, SourceFile,
+} from '../types';
+import { diagnoseError, getWarning } from './diagnostics';
+import { detectImageFormat } from './imageFormat';
+import { parseJpegHeader } from './jpegHeader';
+import { convertImageToPDF, mergeImagesToPDF } from './pdfConverter';
+import { cleanupImage } from './scanCleanup';
+import { getByteBudget } from './imageOptimizer';
+import { groupFiles } from './grouping';
+import { getFileMetadata, getGroupMetadata } from './metadata';
+import { getFileEntries, getMergedEntries } from './zipExport';
+
+// Headless batch conversion: bytes in, named PDFs out, following the same rules as a run in the
+// UI. Nothing here touches the DOM; canvas work goes through the raster backend (utils/raster.ts).
+
+// An image to convert, with what the UI would know about the file it came from
+export interface BatchInput {
+  name: string;
+  // e.g. "scans/batch1/page_01.jpg"; drives folder grouping and preserved folders
+  relativePath?: string;
+  bytes: Uint8Array;
+  lastModified: number;
+  transform?: ImageTransform;
+  corners?: Quad;
+  metadata?: Partial<DocumentMetadata>;
+}
+
+export interface BatchDocument {
+  // Path from the export naming template, relative to the output folder
+  path: string;
+  pdfBlob: Blob;
+  // Inputs on its pages, by their index in the batch
+  inputs: number[];
+}
+
+export interface BatchFailure {
+  // Index in the batch
+  index: number;
+  // Relative path, or the file name for loose files
+  name: string;
+  category: ErrorCategory;
+  error: string;
+  // The underlying exception message
+  detail?: string;
+}
+
+// An input that was converted without a step that failed on it
+export interface BatchWarning extends ConversionWarning {
+  // Index in the batch
+  index: number;
+  // Relative path, or the file name for loose files
+  name: string;
+}
+
+export interface BatchResult {
+  documents: BatchDocument[];
+  failures: BatchFailure[];
+  warnings: BatchWarning[];
+  // Inputs that made it into a document
+  converted: number;
+}
+
+export interface BatchHooks {
+  // Fired once per input as it's converted, or with the reason it wasn't
+  onFile?: (index: number, error?: string) => void;
+  // Fired when a step is skipped for an input, before it's converted
+  onWarning?: (index: number, warning: ConversionWarning) => void;
+}
+
+interface QueuedInput extends SourceFile {
+  id: string;
+  index: number;
+  format: ImageFormat;
+  bytes: Uint8Array;
+  transform?: ImageTransform;
+  corners?: Quad;
+  pdfBlob?: Blob;
+}
+
+// Scan cleanup as the UI runs it: failing only costs that step, and is passed to `onFailure`
+const prepareSource = async (
+  source: ImageSource,
+  options: ConversionOptions,
+  onFailure: (error: unknown) => void
+): Promise<ImageSource> => {
+  if (!options.cleanup.enabled && !source.corners) return source;
+  try {
+    const image = await cleanupImage(source, options.cleanup);
+    return { ...source, bytes: new Uint8Array(await image.arrayBuffer()), format: image.type === 'image/png' ? 'png' : 'jpeg' };
+  } catch (error) {
+    onFailure(error);
+    return source;
+  }
+};
+
+/**
+ * Converts a batch in input order, into one PDF per image or merged documents depending on
+ * `options.output`, and names them with the export template. Images that can't be read or
+ * converted are reported in `failures` and left out; the rest still go through. Images converted
+ * without scan cleanup, because it failed on them, are listed in `warnings`.
+ * OCR isn't available here, so `options.ocr` is ignored.
+ */
+export const convertBatch = async (
+  inputs: BatchInput[],
+  options: ConversionOptions,
+  hooks: BatchHooks = {}
+): Promise<BatchResult> => {
+  const failures: BatchFailure[] = [];
+  const warnings: BatchWarning[] = [];
+  let converted = 0;
+  const report = (index: number, error?: unknown) => {
+    if (error === undefined) {
+      converted++;
+      hooks.onFile?.(index);
+      return;
+    }
+    const input = inputs[index];
+    const { category, message, detail } = diagnoseError(error, input.bytes);
+    failures.push({ index, name: input.relativePath || input.name, category, error: message, detail });
+    hooks.onFile?.(index, message);
+  };
+  const warnCleanup = (index: number) => (error: unknown) => {
+    const input = inputs[index];
+    const warning = getWarning('cleanup', error, input.bytes);
+    warnings.push({ index, name: input.relativePath || input.name, ...warning });
+    hooks.onWarning?.(index, warning);
+  };
+
+  // Like an import in the UI, anything that isn't a supported image is never queued
+  const queue: QueuedInput[] = [];
+  inputs.forEach((input, index) => {
+    const { format, reason } = detectImageFormat(input.bytes);
+    if (!format) {
+      report(index, reason ?? 'Not a supported image');
+      return;
+    }
+    queue.push({
+      id: String(index),
+      index,
+      format,
+      bytes: input.bytes,
+      transform: input.transform,
+      corners: input.corners,
+      file: { name: input.name, lastModified: input.lastModified },
+      relativePath: input.relativePath,
+      capturedAt: format === 'jpeg' ? parseJpegHeader(input.bytes)?.capturedAt : undefined,
+      metadata: input.metadata,
+    });
+  });
+
+  const batchBytes = queue.reduce((acc, item) => acc + item.bytes.length, 0);
+  const toSource = (item: QueuedInput): ImageSource => ({
+    name: item.file.name,
+    bytes: item.bytes,
+    format: item.format,
+    transform: item.transform,
+    corners: item.corners,
+    byteBudget: getByteBudget(options.optimize, item.bytes.length, batchBytes),
+  });
+
+  if (options.output.mode === 'merge') {
+    const groups = groupFiles(queue, options.output);
+    const outputs: MergedOutput[] = [];
+
+    for (const [groupIndex, group] of groups.entries()) {
+      const sources: ImageSource[] = [];
+      for (const item of group.files) {
+        sources.push(await prepareSource(toSource(item), options, warnCleanup(item.index)));
+      }
+
+      const pdfBlob = await mergeImagesToPDF(sources, options, (i, error, page) => {
+        const item = group.files[i];
+        if (page) {
+          item.width = page.width;
+          item.height = page.height;
+        }
+        report(item.index, error);
+      }, getGroupMetadata(group, options.metadata, groupIndex + 1));
+
+      if (pdfBlob) {
+        outputs.push({
+          id: String(groupIndex),
+          name: group.name,
+          fileIds: group.files.map(f => f.id),
+          pdfBlob,
+          encrypted: options.security.enabled,
+        });
+      }
+    }
+
+    const entries = getMergedEntries(outputs, queue, options.export);
+    return {
+      documents: entries.map((entry, i) => ({
+        path: entry.path,
+        pdfBlob: entry.blob,
+        inputs: outputs[i].fileIds.map(Number).filter(index => !failures.some(f => f.index === index)),
+      })),
+      failures,
+      warnings,
+      converted,
+    };
+  }
+
+  for (const [position, item] of queue.entries()) {
+    try {
+      const source = await prepareSource(toSource(item), options, warnCleanup(item.index));
+      const { pdfBlob, width, height } = await convertImageToPDF(
+        source,
+        options,
+        getFileMetadata(item, options.metadata, item.index + 1),
+        { page: position + 1, total: queue.length }
+      );
+      Object.assign(item, { pdfBlob, width, height });
+      report(item.index);
+    } catch (error) {
+      report(item.index, error);
+    }
+  }
+
+  // Entries come back in queue order, one per converted file
+  const done = queue.filter(item => item.pdfBlob);
+  return {
+    documents: getFileEntries(done, options.export).map((entry, i) => ({
+      path: entry.path,
+      pdfBlob: entry.blob,
+      inputs: [done[i].index],
+    })),
+    failures,
+    warnings,
+    converted,
+  };
+};
@@ -0,0 +1,267 @@
+import { ConversionOptions } from '../types';
+import { DEFAULT_OPTIONS, MIN_OPTIMIZE_QUALITY } from '../constants';
+import { sanitizeSegment } from './naming';
+import { omitPasswords } from './persistence';
+
+// Named sets of options, saved in the browser (see utils/persistence.ts) and shared between
+// people and the CLI as JSON files. Files are checked field by field against the schema below,
+// since they come from anywhere.
+
+export const PRESET_FORMAT = 'batchsnap-preset';
+// Bump when a field changes meaning; files from newer versions are refused rather than misread
+export const PRESET_VERSION = 1;
+
+const MAX_NAME_LENGTH = 80;
+const MAX_TEXT_LENGTH = 1000;
+// How many problems an error message lists before summarising the rest
+const MAX_REPORTED_PROBLEMS = 3;
+
+export interface Preset {
+  id: string;
+  name: string;
+  // Never holds passwords
+  options: ConversionOptions;
+}
+
+// What a preset file holds
+interface PresetFile {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  name: string;
+  options: ConversionOptions;
+}
+
+// Returns what's wrong with the value, or null when it's fine
+type Check = (value: unknown) => string | null;
+
+const bool: Check = value => (typeof value === 'boolean' ? null : 'must be true or false');
+
+const num = (min: number, max: number, integer = false): Check => value =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max && (!integer || Number.isInteger(value))
+    ? null
+    : `must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}`;
+
+const text = (pattern?: RegExp): Check => value => {
+  if (typeof value !== 'string') return 'must be text';
+  if (value.length > MAX_TEXT_LENGTH) return `must be at most ${MAX_TEXT_LENGTH} characters`;
+  return pattern && !pattern.test(value) ? 'is not in the expected format' : null;
+};
+
+const oneOf = (values: readonly string[]): Check => value =>
+  typeof value === 'string' && values.includes(value) ? null : `must be one of: ${values.join(', ')}`;
+
+const listOf = (values: readonly string[], allowEmpty: boolean): Check => value => {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !values.includes(v))) {
+    return `must be a list of: ${values.join(', ')}`;
+  }
+  return value.length === 0 && !allowEmpty ? 'must not be empty' : null;
+};
+
+const optional = (check: Check): Check => value => (value === undefined ? null : check(value));
+
+const object = (fields: Record<string, Check>): Check => value => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'must be an object';
+  for (const [key, check] of Object.entries(fields)) {
+    const problem = check((value as Record<string, unknown>)[key]);
+    if (problem) return `.${key} ${problem}`;
+  }
+  return null;
+};
+
+type Schema = {
+  [S in keyof ConversionOptions]: { [F in keyof ConversionOptions[S]]-?: Check };
+};
+
+// Every option, so the compiler flags a field added to ConversionOptions but not described here
+const SCHEMA: Schema = {
+  input: {
+    rasterStrategy: oneOf(['png', 'jpeg']),
+    jpegQuality: num(0.5, 1),
+  },
+  optimize: {
+    enabled: bool,
+    maxLongEdge: num(0, 100000, true),
+    targetDpi: num(0, 2400, true),
+    jpegQuality: num(MIN_OPTIMIZE_QUALITY, 1),
+    colorMode: oneOf(['color', 'grayscale', 'bw']),
+    targetSizeMb: num(0, 100000),
+  },
+  ocr: {
+    enabled: bool,
+    languages: listOf(['eng', 'deu', 'fra', 'spa'], false),
+  },
+  cleanup: {
+    enabled: bool,
+    perspective: bool,
+    deskew: bool,
+    cropBorders: bool,
+    enhance: oneOf(['none', 'contrast', 'whiten']),
+  },
+  layout: {
+    pageSize: oneOf(['image', 'a4', 'letter', 'legal']),
+    orientation: oneOf(['auto', 'portrait', 'landscape']),
+    marginMm: num(0, 100),
+    placement: oneOf(['fit', 'fill', 'center', 'actual']),
+    dpi: num(1, 2400),
+    useImageDpi: bool,
+  },
+  output: {
+    mode: oneOf(['separate', 'merge']),
+    grouping: oneOf(['all', 'every-n', 'folder']),
+    groupSize: num(1, 100000, true),
+  },
+  metadata: {
+    title: text(),
+    author: text(),
+    subject: text(),
+    keywords: text(),
+    bookmarks: bool,
+    pageLabels: oneOf(['none', 'D', 'r', 'R', 'a', 'A']),
+    pageLabelPrefix: text(),
+  },
+  stamp: {
+    enabled: bool,
+    kind: oneOf(['text', 'image']),
+    text: text(),
+    fontSize: num(4, 400),
+    color: text(/^#[0-9a-f]{6}$/i),
+    opacity: num(0.05, 1),
+    rotation: num(-180, 180),
+    position: oneOf(['top-left', 'top-center', 'top-right', 'center', 'bottom-left', 'bottom-center', 'bottom-right']),
+    marginMm: num(0, 100),
+    logo: optional(object({
+      // Logos are small, but a data URL is still far longer than any other text field
+      dataUrl: value => (typeof value === 'string' && /^data:image\/(png|jpeg);base64,/.test(value) ? null : 'must be a PNG or JPEG data URL'),
+      format: oneOf(['PNG', 'JPEG']),
+      width: num(1, 100000, true),
+      height: num(1, 100000, true),
+    })),
+    logoWidthMm: num(1, 1000),
+  },
+  security: {
+    enabled: bool,
+    // Passwords are never read from a file
+    userPassword: () => null,
+    ownerPassword: () => null,
+    permissions: listOf(['print', 'copy', 'modify'], true),
+  },
+  export: {
+    nameTemplate: text(),
+    zipName: text(),
+    folderName: text(),
+    preserveFolders: bool,
+    splitSizeMb: num(0, 100000),
+    saveToFolder: bool,
+    releaseSaved: bool,
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeProblems = (problems: string[]) => {
+  const listed = problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ');
+  const more = problems.length - MAX_REPORTED_PROBLEMS;
+  return more > 0 ? `${listed}; and ${more} more` : listed;
+};
+
+/**
+ * Checks options read from a file and fills in any that are missing with the defaults, so
+ * presets saved before an option existed still load. Unknown fields are ignored.
+ * Throws an Error naming the first few invalid fields and how many more there are.
+ */
+export const validateOptions = (value: unknown): ConversionOptions => {
+  if (!isRecord(value)) {
+    throw new Error('Preset has no options');
+  }
+
+  const problems: string[] = [];
+  const options = {} as Record<string, Record<string, unknown>>;
+  (Object.keys(SCHEMA) as (keyof ConversionOptions)[]).forEach(section => {
+    const defaults = DEFAULT_OPTIONS[section] as unknown as Record<string, unknown>;
+    const given = value[section];
+    options[section] = { ...defaults };
+    if (given === undefined) return;
+    if (!isRecord(given)) {
+      problems.push(`"${section}" must be an object`);
+      return;
+    }
+
+    Object.entries(SCHEMA[section] as Record<string, Check>).forEach(([field, check]) => {
+      if (!(field in given)) return;
+      const problem = check(given[field]);
+      if (problem) {
+        // Nested objects report the inner field first, as ".key message"
+        const split = problem.startsWith('.') ? problem.indexOf(' ') : 0;
+        problems.push(`"${section}.${field}${problem.slice(0, split)}" ${problem.slice(split).trim()}`);
+      } else if (given[field] !== undefined) {
+        options[section][field] = given[field];
+      }
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid preset: ${describeProblems(problems)}`);
+  }
+  return omitPasswords(options as unknown as ConversionOptions);
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export const sortPresets = (presets: Preset[]): Preset[] =>
+  [...presets].sort((a, b) => collator.compare(a.name, b.name));
+
+export const normalizePresetName = (name: string) => name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH);
+
+/**
+ * Reads a preset file. Throws an Error saying what's wrong when it isn't one this version can use.
+ */
+export const parsePresetFile = (json: string): Pick<Preset, 'name' | 'options'> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== PRESET_FORMAT) {
+    throw new Error('Not a BatchSnap preset file');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('Preset file has no valid version');
+  }
+  if (data.version > PRESET_VERSION) {
+    throw new Error(`Preset file is version ${data.version}, but this version of BatchSnap only reads up to ${PRESET_VERSION}`);
+  }
+
+  const name = typeof data.name === 'string' ? normalizePresetName(data.name) : '';
+  if (!name) {
+    throw new Error('Preset file has no name');
+  }
+  return { name, options: validateOptions(data.options) };
+};
+
+// Pretty-printed so the files read well in a diff or a shared drive; passwords are left out
+export const serializePreset = (preset: Pick<Preset, 'name' | 'options'>): string => {
+  const file: PresetFile = {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    name: preset.name,
+    options: omitPasswords(preset.options),
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+};
+
+export const getPresetFileName = (name: string) => `${sanitizeSegment(name) || 'preset'}.batchsnap.json`;
+
+// Key order differs between options built by the UI and ones read from a file
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (!isRecord(value)) return value;
+  return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonicalize(value[key])]));
+};
+
+/**
+ * Whether `options` are exactly what the preset sets, passwords aside.
+ */
+export const matchesPreset = (preset: Preset, options: ConversionOptions) =>
+  JSON.stringify(canonicalize(omitPasswords(preset.options))) === JSON.stringify(canonicalize(omitPasswords(options)));
@@ -0,0 +1,63 @@
+/// <reference types="vite/client" />
+
+// Must match serviceWorker.ts
+const SHARE_INBOX = 'batchsnap-share-inbox';
+const SHARED_PARAM = 'shared';
+
+// File Handling API (Chromium only); not in TypeScript's DOM lib
+interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer(consumer: (params: LaunchParams) => void): void;
+}
+
+/**
+ * Registers the service worker that makes the app work offline. Only production builds have one;
+ * in development it would serve stale modules.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(err => console.error('Service worker registration failed', err));
+  });
+};
+
+/**
+ * Calls `onFiles` with the images the installed app was opened with ("Open with BatchSnap").
+ */
+export const handleLaunchFiles = (onFiles: (files: File[]) => void) => {
+  const launchQueue = (window as unknown as { launchQueue?: LaunchQueue }).launchQueue;
+  launchQueue?.setConsumer(async ({ files }) => {
+    if (files.length === 0) return;
+    try {
+      onFiles(await Promise.all(files.map(handle => handle.getFile())));
+    } catch (err) {
+      console.error('Could not open launched files', err);
+    }
+  });
+};
+
+/**
+ * Collects images another app shared to this one. The service worker receives the share, keeps
+ * the files in a cache and reloads the page with `?shared=1`; they are handed out only once.
+ */
+export const takeSharedFiles = async (): Promise<File[]> => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(SHARED_PARAM) || !('caches' in window)) return [];
+  // A reload shouldn't look for them again
+  url.searchParams.delete(SHARED_PARAM);
+  window.history.replaceState(null, '', url);
+
+  const inbox = await caches.open(SHARE_INBOX);
+  const requests = await inbox.keys();
+  const files = await Promise.all(requests.map(async request => {
+    const response = await inbox.match(request);
+    if (!response) return null;
+    const name = decodeURIComponent(response.headers.get('X-File-Name') ?? '') || 'shared-image';
+    return new File([await response.blob()], name, { type: response.headers.get('Content-Type') ?? '' });
+  }));
+  await caches.delete(SHARE_INBOX);
+  return files.filter((f): f is File => f !== null);
+};
@@ -0,0 +1,42 @@
+import { withoutOrientation } from './jpegHeader';
+
+// Everything the pipeline needs from a 2D canvas, behind one swappable object. Browsers and
+// workers use OffscreenCanvas and createImageBitmap; the CLI installs a Node implementation.
+
+export interface DecodeOptions {
+  // 'none' keeps the pixels as stored, ignoring EXIF Orientation
+  imageOrientation?: 'from-image' | 'none';
+  // Scales the image to this size while decoding, so the full-size pixels are never held
+  resizeWidth?: number;
+  resizeHeight?: number;
+}
+
+export interface RasterBackend {
+  createCanvas: (width: number, height: number) => OffscreenCanvas;
+  // The result is only drawn and measured, then closed
+  decode: (image: Blob, options?: DecodeOptions) => Promise<ImageBitmap>;
+  encode: (canvas: OffscreenCanvas, options: ImageEncodeOptions) => Promise<Blob>;
+}
+
+const browserBackend: RasterBackend = {
+  createCanvas: (width, height) => new OffscreenCanvas(width, height),
+  decode: async (image, options = {}) => {
+    const { imageOrientation, ...size } = options;
+    const resize: ImageBitmapOptions = size.resizeWidth || size.resizeHeight ? { ...size, resizeQuality: 'high' } : {};
+    if (imageOrientation !== 'none') return createImageBitmap(image, { imageOrientation, ...resize });
+    // 'none' is deprecated and some browsers apply the orientation anyway, so the tag is cleared
+    // instead: the pixels then come back as stored wherever the bitmap is made
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const stored = withoutOrientation(bytes);
+    return createImageBitmap(stored === bytes ? image : new Blob([stored]), { imageOrientation: 'from-image', ...resize });
+  },
+  encode: (canvas, options) => canvas.convertToBlob(options),
+};
+
+let backend = browserBackend;
+
+export const getRasterBackend = () => backend;
+
+export const setRasterBackend = (next: RasterBackend) => {
+  backend = next;
+};
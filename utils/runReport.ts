@@ -0,0 +1,127 @@
+import { ConversionStatus, ConversionWarning, ErrorCategory, FileData, ProcessingStats } from '../types';
+import { formatDate } from './naming';
+
+// What a run did to each file, for downloading as JSON (everything) or CSV (one row per file).
+
+export type ReportFormat = 'csv' | 'json';
+
+export type ReportStatus = 'completed' | 'failed' | 'cancelled' | 'unsupported' | 'pending';
+
+export interface ReportFile {
+  name: string;
+  // Path inside the dropped folder, when there was one
+  path?: string;
+  status: ReportStatus;
+  inputBytes: number;
+  // Its PDF, or its image stream in a merged document
+  outputBytes?: number;
+  // Pixel size of the page image
+  width?: number;
+  height?: number;
+  durationMs?: number;
+  errorCategory?: ErrorCategory;
+  error?: string;
+  errorDetail?: string;
+  // Steps skipped for a completed file, e.g. OCR that failed
+  warnings?: ConversionWarning[];
+}
+
+export interface RunReport {
+  generatedAt: string;
+  run: {
+    total: number;
+    processed: number;
+    success: number;
+    failed: number;
+    cancelled: number;
+    startedAt?: string;
+    finishedAt?: string;
+    durationMs?: number;
+  };
+  files: ReportFile[];
+}
+
+const STATUSES: Record<ConversionStatus, ReportStatus> = {
+  [ConversionStatus.IDLE]: 'pending',
+  [ConversionStatus.QUEUED]: 'pending',
+  [ConversionStatus.PROCESSING]: 'pending',
+  [ConversionStatus.COMPLETED]: 'completed',
+  [ConversionStatus.ERROR]: 'failed',
+  [ConversionStatus.CANCELLED]: 'cancelled',
+  [ConversionStatus.UNSUPPORTED]: 'unsupported',
+};
+
+const CSV_COLUMNS: { header: string; value: (file: ReportFile) => string | number | undefined }[] = [
+  { header: 'name', value: f => f.name },
+  { header: 'path', value: f => f.path },
+  { header: 'status', value: f => f.status },
+  { header: 'input_bytes', value: f => f.inputBytes },
+  { header: 'output_bytes', value: f => f.outputBytes },
+  { header: 'width', value: f => f.width },
+  { header: 'height', value: f => f.height },
+  { header: 'duration_ms', value: f => f.durationMs },
+  { header: 'error_category', value: f => f.errorCategory },
+  { header: 'error', value: f => f.error },
+  { header: 'error_detail', value: f => f.errorDetail },
+  { header: 'warnings', value: f => f.warnings?.map(w => w.message).join('; ') },
+];
+
+const toIso = (time: number | null) => (time === null ? undefined : new Date(time).toISOString());
+
+/**
+ * Snapshot of the queue and the last run's counters, in queue order.
+ */
+export const buildRunReport = (files: FileData[], stats: ProcessingStats, now = Date.now()): RunReport => ({
+  generatedAt: new Date(now).toISOString(),
+  run: {
+    total: stats.total,
+    processed: stats.processed,
+    success: stats.success,
+    failed: stats.failed,
+    cancelled: stats.cancelled,
+    startedAt: toIso(stats.startTime),
+    finishedAt: toIso(stats.endTime),
+    durationMs: stats.startTime !== null && stats.endTime !== null ? stats.endTime - stats.startTime : undefined,
+  },
+  files: files.map(f => {
+    const failed = f.status === ConversionStatus.ERROR || f.status === ConversionStatus.UNSUPPORTED;
+    const completed = f.status === ConversionStatus.COMPLETED;
+    return {
+      name: f.file.name,
+      path: f.relativePath,
+      status: STATUSES[f.status],
+      inputBytes: f.file.size,
+      outputBytes: f.outputSize,
+      width: f.width,
+      height: f.height,
+      durationMs: f.durationMs,
+      errorCategory: failed ? f.errorCategory : undefined,
+      error: failed ? f.error : undefined,
+      errorDetail: failed ? f.errorDetail : undefined,
+      warnings: completed ? f.warnings : undefined,
+    };
+  }),
+});
+
+// Quotes where needed, and defuses text a spreadsheet would otherwise run as a formula
+const toCsvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatReport = (report: RunReport, format: ReportFormat): string => {
+  if (format === 'json') {
+    return `${JSON.stringify(report, null, 2)}\n`;
+  }
+  const rows = [
+    CSV_COLUMNS.map(c => c.header),
+    ...report.files.map(file => CSV_COLUMNS.map(c => toCsvCell(c.value(file)))),
+  ];
+  // CRLF, as RFC 4180 and Excel expect
+  return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+};
+
+export const getReportFileName = (format: ReportFormat, now = Date.now()) =>
+  `batchsnap-report-${formatDate(now)}.${format}`;
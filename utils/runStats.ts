@@ -0,0 +1,33 @@
+import { ProcessingStats } from '../types';
+
+// How one file's part in a run ended
+export type RunOutcome = 'success' | 'failed' | 'cancelled';
+
+export const INITIAL_STATS: ProcessingStats = {
+  total: 0,
+  processed: 0,
+  success: 0,
+  failed: 0,
+  cancelled: 0,
+  startTime: null,
+  endTime: null,
+};
+
+export const startRun = (total: number, now = Date.now()): ProcessingStats => ({
+  ...INITIAL_STATS,
+  total,
+  startTime: now,
+});
+
+// Keeps processed equal to success + failed + cancelled
+export const recordOutcome = (stats: ProcessingStats, outcome: RunOutcome): ProcessingStats => ({
+  ...stats,
+  processed: stats.processed + 1,
+  [outcome]: stats[outcome] + 1,
+});
+
+export const finishRun = (stats: ProcessingStats, now = Date.now()): ProcessingStats => ({ ...stats, endTime: now });
+
+// 0-100
+export const getProgressPercent = (stats: ProcessingStats) =>
+  stats.total > 0 ? (stats.processed / stats.total) * 100 : 0;
@@ -0,0 +1,506 @@
+import { CleanupOptions, EnhanceMode, ImageSource, Point, Quad } from '../types';
+import { getRasterBackend } from './raster';
+
+// Long edge of the small grayscale copy that edges, skew and borders are measured on
+const ANALYSIS_EDGE = 512;
+
+// Cleaned images are capped at this long edge to keep the pixel buffers within memory
+const MAX_OUTPUT_EDGE = 5000;
+
+// A detected page smaller than this share of the photo is more likely a stray bright patch,
+// and one larger than this already fills the frame (a flatbed scan), so there's nothing to flatten
+const MIN_PAGE_AREA = 0.2;
+const MAX_PAGE_AREA = 0.97;
+
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.25;
+// Smaller corrections aren't visible and would only soften the image
+const MIN_SKEW_DEGREES = 0.2;
+
+// An edge row or column counts as border when most of it is dark; never trim more than 10% a side
+const BORDER_DARK_SHARE = 0.6;
+const MAX_BORDER_SHARE = 0.1;
+
+// Long edge of the copy the paper colour is estimated from when whitening
+const BACKGROUND_EDGE = 48;
+
+// Share of pixels clipped to black and to white by the contrast stretch
+const STRETCH_CLIP = 0.01;
+
+const OUTPUT_JPEG_QUALITY = 0.92;
+
+export const FULL_FRAME: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+interface GrayImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+type Drawable = ImageBitmap | OffscreenCanvas;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = getRasterBackend().createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  return { canvas, ctx };
+};
+
+const drawScaled = (image: Drawable, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(image.width, image.height));
+  const { canvas, ctx } = createCanvas(image.width * scale, image.height * scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { canvas, ctx };
+};
+
+const toGray = (image: Drawable): GrayImage => {
+  const { canvas, ctx } = drawScaled(image, ANALYSIS_EDGE);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width: canvas.width, height: canvas.height };
+};
+
+// 3x3 box blur, enough to keep paper texture and JPEG noise out of the threshold
+const blur = ({ data, width, height }: GrayImage): GrayImage => {
+  const out = new Uint8Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+            sum += data[ny * width + nx];
+            count++;
+          }
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return { data: out, width, height };
+};
+
+// Otsu's method: the threshold that best separates the histogram into two classes
+const otsuThreshold = (data: Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  data.forEach(v => histogram[v]++);
+
+  let sum = 0;
+  histogram.forEach((count, value) => (sum += value * count));
+
+  let sumBelow = 0;
+  let weightBelow = 0;
+  let best = -1;
+  let threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = data.length - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sum - sumBelow) / weightAbove;
+    const between = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+const quadArea = (quad: Point[]) =>
+  Math.abs(quad.reduce((acc, p, i) => {
+    const next = quad[(i + 1) % quad.length];
+    return acc + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+const isConvex = (quad: Point[]) => {
+  const turns = quad.map((p, i) => {
+    const a = quad[(i + 1) % 4];
+    const b = quad[(i + 2) % 4];
+    return Math.sign((a.x - p.x) * (b.y - a.y) - (a.y - p.y) * (b.x - a.x));
+  });
+  return turns.every(t => t === turns[0] && t !== 0);
+};
+
+/**
+ * Finds the page as the largest region brighter than the background, and takes its corners as
+ * the points furthest towards each corner of the frame. That holds for pages tilted by up to
+ * about 45°, which covers photos taken roughly square-on. Returns null when no plausible page
+ * outline is found, e.g. on a light table or a scan with no background showing.
+ */
+const findPageCorners = (image: GrayImage): Quad | null => {
+  const { data, width, height } = blur(image);
+  const threshold = otsuThreshold(data);
+  const labels = new Int32Array(data.length);
+  const stack = new Int32Array(data.length);
+
+  let best: { size: number; corners: Point[] } | null = null;
+  let label = 0;
+  for (let start = 0; start < data.length; start++) {
+    if (labels[start] !== 0 || data[start] <= threshold) continue;
+    label++;
+    labels[start] = label;
+    let top = 0;
+    stack[top++] = start;
+
+    let size = 0;
+    // Extremes of x + y and x - y, as pixel indices
+    let minSum = start;
+    let maxSum = start;
+    let minDiff = start;
+    let maxDiff = start;
+    const sumOf = (i: number) => (i % width) + Math.floor(i / width);
+    const diffOf = (i: number) => (i % width) - Math.floor(i / width);
+
+    while (top > 0) {
+      const index = stack[--top];
+      size++;
+      if (sumOf(index) < sumOf(minSum)) minSum = index;
+      if (sumOf(index) > sumOf(maxSum)) maxSum = index;
+      if (diffOf(index) < diffOf(minDiff)) minDiff = index;
+      if (diffOf(index) > diffOf(maxDiff)) maxDiff = index;
+
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && n < data.length && labels[n] === 0 && data[n] > threshold) {
+          labels[n] = label;
+          stack[top++] = n;
+        }
+      }
+    }
+
+    if (!best || size > best.size) {
+      const toPoint = (i: number): Point => ({ x: ((i % width) + 0.5) / width, y: (Math.floor(i / width) + 0.5) / height });
+      best = { size, corners: [minSum, maxDiff, maxSum, minDiff].map(toPoint) };
+    }
+  }
+
+  if (!best) return null;
+  const area = quadArea(best.corners);
+  if (area < MIN_PAGE_AREA || area > MAX_PAGE_AREA || !isConvex(best.corners)) return null;
+  return best.corners as Quad;
+};
+
+/**
+ * Angle (degrees, clockwise) that text lines are tilted by: the one at which the dark pixels,
+ * projected onto rows, give the sharpest profile of lines and gaps.
+ */
+const measureSkew = ({ data, width, height }: GrayImage): number => {
+  const threshold = otsuThreshold(data);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] <= threshold) {
+      xs.push((i % width) - width / 2);
+      ys.push(Math.floor(i / width) - height / 2);
+    }
+  }
+  // Blank pages and photos that are mostly dark have no lines to go by
+  if (xs.length < data.length * 0.002 || xs.length > data.length * 0.5) return 0;
+
+  const offset = Math.ceil(Math.hypot(width, height) / 2);
+  const bins = new Float64Array(offset * 2 + 1);
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += SKEW_STEP_DEGREES) {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    }
+    let score = 0;
+    for (let i = 1; i < bins.length; i++) {
+      score += (bins[i] - bins[i - 1]) ** 2;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = degrees;
+    }
+  }
+  return bestAngle;
+};
+
+// Solves for the 3x3 projective transform taking each `from` point onto the matching `to` point
+const getHomography = (from: Point[], to: Point[]): number[] => {
+  const rows = from.flatMap(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    return [
+      [x, y, 1, 0, 0, 0, -u * x, -u * y, u],
+      [0, 0, 0, x, y, 1, -v * x, -v * y, v],
+    ];
+  });
+
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    if (Math.abs(rows[col][col]) < 1e-12) {
+      throw new Error('Page corners are degenerate');
+    }
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Maps the quadrilateral `corners` (fractions of the image) onto an upright rectangle, sized by
+ * the longer of each pair of opposite edges so no detail is lost.
+ */
+const warpPerspective = (source: OffscreenCanvas, corners: Quad): OffscreenCanvas => {
+  const { width: sw, height: sh } = source;
+  const [tl, tr, br, bl] = corners.map(p => ({ x: p.x * sw, y: p.y * sh }));
+  const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+  const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+  if (width < 2 || height < 2) {
+    throw new Error('Page corners are too close together');
+  }
+
+  const [a, b, c, d, e, f, g, h] = getHomography(
+    [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }],
+    [tl, tr, br, bl]
+  );
+
+  const src = source.getContext('2d')!.getImageData(0, 0, sw, sh).data;
+  const target = createCanvas(width, height);
+  const output = target.ctx.createImageData(width, height);
+  const dst = output.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Sample at pixel centres, bilinearly, clamped to the source's edge
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const w = g * px + h * py + 1;
+      const sx = Math.min(sw - 1, Math.max(0, (a * px + b * py + c) / w - 0.5));
+      const sy = Math.min(sh - 1, Math.max(0, (d * px + e * py + f) / w - 0.5));
+      const x0 = Math.min(sw - 2, Math.floor(sx));
+      const y0 = Math.min(sh - 2, Math.floor(sy));
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + sw * 4;
+      const i11 = i01 + 4;
+      const o = (y * width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = src[i00 + ch] + (src[i10 + ch] - src[i00 + ch]) * fx;
+        const bottom = src[i01 + ch] + (src[i11 + ch] - src[i01 + ch]) * fx;
+        dst[o + ch] = top + (bottom - top) * fy;
+      }
+      dst[o + 3] = 255;
+    }
+  }
+
+  target.ctx.putImageData(output, 0, 0);
+  return target.canvas;
+};
+
+// Rotates about the centre, keeping the size; the uncovered corners are filled with white
+const rotate = (source: OffscreenCanvas, degrees: number): OffscreenCanvas => {
+  const { canvas, ctx } = createCanvas(source.width, source.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+/**
+ * Dark strips along the edges (table, scanner lid, shadow), as the share of each side to trim.
+ */
+const findBorders = ({ data, width, height }: GrayImage) => {
+  const threshold = otsuThreshold(data);
+  const darkShare = (indices: number[]) => indices.filter(i => data[i] <= threshold).length / indices.length;
+  const row = (y: number) => Array.from({ length: width }, (_, x) => y * width + x);
+  const column = (x: number) => Array.from({ length: height }, (_, y) => y * width + x);
+
+  const trim = (count: number, line: (n: number) => number[]) => {
+    let n = 0;
+    while (n < count * MAX_BORDER_SHARE && darkShare(line(n)) > BORDER_DARK_SHARE) n++;
+    return n / count;
+  };
+  return {
+    top: trim(height, row),
+    bottom: trim(height, n => row(height - 1 - n)),
+    left: trim(width, column),
+    right: trim(width, n => column(width - 1 - n)),
+  };
+};
+
+const crop = (source: OffscreenCanvas, borders: ReturnType<typeof findBorders>): OffscreenCanvas => {
+  const x = Math.round(source.width * borders.left);
+  const y = Math.round(source.height * borders.top);
+  const width = Math.round(source.width * (1 - borders.left - borders.right));
+  const height = Math.round(source.height * (1 - borders.top - borders.bottom));
+  if (width === source.width && height === source.height) return source;
+
+  const target = createCanvas(width, height);
+  target.ctx.drawImage(source, x, y, width, height, 0, 0, width, height);
+  return target.canvas;
+};
+
+/**
+ * Divides out the paper's colour, estimated from a tiny copy in which text is averaged away and
+ * then spread by taking the lightest neighbour, so shadows and tinted paper come out white.
+ */
+const whitenBackground = (canvas: OffscreenCanvas, ctx: OffscreenCanvasRenderingContext2D, pixels: ImageData) => {
+  const small = drawScaled(canvas, BACKGROUND_EDGE);
+  const { width, height } = small.canvas;
+  const smallPixels = small.ctx.getImageData(0, 0, width, height);
+  const lightest = new Uint8ClampedArray(smallPixels.data);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let ch = 0; ch < 3; ch++) {
+        let max = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = Math.min(width - 1, Math.max(0, x + dx));
+            const ny = Math.min(height - 1, Math.max(0, y + dy));
+            max = Math.max(max, smallPixels.data[(ny * width + nx) * 4 + ch]);
+          }
+        }
+        lightest[(y * width + x) * 4 + ch] = max;
+      }
+    }
+  }
+  smallPixels.data.set(lightest);
+  small.ctx.putImageData(smallPixels, 0, 0);
+
+  // Scaled back up, the estimate is a smooth map of the paper colour under every pixel
+  const background = createCanvas(canvas.width, canvas.height);
+  background.ctx.imageSmoothingQuality = 'high';
+  background.ctx.drawImage(small.canvas, 0, 0, canvas.width, canvas.height);
+  const paper = background.ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let ch = 0; ch < 3; ch++) {
+      data[i + ch] = (data[i + ch] * 255) / Math.max(1, paper[i + ch]);
+    }
+  }
+  ctx.putImageData(pixels, 0, 0);
+};
+
+// Stretches luminance so the darkest and lightest 1% become black and white
+const stretchContrast = (ctx: OffscreenCanvasRenderingContext2D, pixels: ImageData) => {
+  const { data } = pixels;
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+  }
+
+  const clip = (data.length / 4) * STRETCH_CLIP;
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high];
+  // Nearly flat images would only gain noise
+  if (high - low < 16) return;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let ch = 0; ch < 3; ch++) {
+      data[i + ch] = (data[i + ch] - low) * scale;
+    }
+  }
+  ctx.putImageData(pixels, 0, 0);
+};
+
+const enhance = (canvas: OffscreenCanvas, mode: EnhanceMode) => {
+  if (mode === 'none') return;
+  const ctx = canvas.getContext('2d')!;
+  if (mode === 'whiten') {
+    whitenBackground(canvas, ctx, ctx.getImageData(0, 0, canvas.width, canvas.height));
+  }
+  stretchContrast(ctx, ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+const loadUpright = async (image: Blob, maxEdge: number): Promise<OffscreenCanvas> => {
+  const bitmap = await getRasterBackend().decode(image, { imageOrientation: 'from-image' });
+  try {
+    return drawScaled(bitmap, maxEdge).canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Page outline detected in a photo, for the editor to start from; null if none was found.
+ */
+export const detectPageCorners = async (image: Blob): Promise<Quad | null> =>
+  findPageCorners(toGray(await loadUpright(image, ANALYSIS_EDGE)));
+
+/**
+ * Flattens, straightens, trims and enhances a photographed document. Works on the upright image
+ * (EXIF orientation applied), which is also what `corners` refer to; the user's rotate/flip still
+ * applies afterwards. Hand-set `corners` are used even when automatic cleanup is off.
+ */
+export const cleanupScan = async (
+  image: Blob,
+  options: CleanupOptions,
+  corners?: Quad,
+  maxEdge = MAX_OUTPUT_EDGE
+): Promise<OffscreenCanvas> => {
+  let canvas = await loadUpright(image, maxEdge);
+
+  const pageCorners = corners ?? (options.enabled && options.perspective ? findPageCorners(toGray(canvas)) : null);
+  if (pageCorners) {
+    canvas = warpPerspective(canvas, pageCorners);
+  } else if (options.enabled && options.deskew) {
+    const skew = measureSkew(toGray(canvas));
+    if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+      canvas = rotate(canvas, -skew);
+    }
+  }
+
+  if (options.enabled) {
+    if (options.cropBorders) {
+      canvas = crop(canvas, findBorders(toGray(canvas)));
+    }
+    enhance(canvas, options.enhance);
+  }
+  return canvas;
+};
+
+/**
+ * Cleans up an image ahead of conversion. PNGs stay lossless; everything else comes back as JPEG.
+ */
+export const cleanupImage = async (source: ImageSource, options: CleanupOptions): Promise<Blob> => {
+  const canvas = await cleanupScan(new Blob([source.bytes]), options, source.corners);
+  const raster = getRasterBackend();
+  return source.format === 'png'
+    ? raster.encode(canvas, { type: 'image/png' })
+    : raster.encode(canvas, { type: 'image/jpeg', quality: OUTPUT_JPEG_QUALITY });
+};
@@ -0,0 +1,31 @@
+import { FileData, SortKey } from '../types';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Natural ordering, so "scan_2" comes before "scan_10"
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const comparators: Record<SortKey, (a: FileData, b: FileData) => number> = {
+  name: (a, b) => collator.compare(a.file.name, b.file.name),
+  // Files without an EXIF capture date fall back to their modification time
+  date: (a, b) => (a.capturedAt ?? a.file.lastModified) - (b.capturedAt ?? b.file.lastModified),
+  size: (a, b) => a.file.size - b.file.size,
+};
+
+export const sortFiles = (files: FileData[], key: SortKey, direction: SortDirection): FileData[] => {
+  const compare = comparators[key];
+  const sign = direction === 'asc' ? 1 : -1;
+  // Array sort is stable, so ties keep their current relative order
+  return [...files].sort((a, b) => sign * compare(a, b));
+};
+
+export const moveFile = (files: FileData[], fromId: string, toId: string): FileData[] => {
+  const from = files.findIndex(f => f.id === fromId);
+  const to = files.findIndex(f => f.id === toId);
+  if (from === -1 || to === -1 || from === to) return files;
+
+  const next = [...files];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
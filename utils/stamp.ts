@@ -0,0 +1,153 @@
+import { jsPDF } from 'jspdf';
+import { StampLogo, StampNumbering, StampOptions, StampPosition } from '../types';
+import { detectImageFormat } from './imageFormat';
+import { formatDate } from './naming';
+import { mmToPx } from './pageLayout';
+
+export interface StampContext {
+  // 1-based page number within the document
+  page: number;
+  total: number;
+  // Source file the page was made from
+  filename: string;
+  date: number;
+}
+
+export const STAMP_TOKENS = ['{page}', '{total}', '{filename}', '{date}'];
+
+// Baseline offset that centres capital letters vertically, as a fraction of the font size
+const CAP_CENTER = 0.35;
+
+/**
+ * Expands `{page}`, `{total}`, `{filename}` and `{date}` in a stamp's text.
+ * `{page:000000}` zero-pads like the naming template, for Bates-style numbering.
+ */
+export const expandStampText = (template: string, context: StampContext): string =>
+  template.replace(/\{(\w+)(?::(0+))?\}/g, (token, key: string, padding?: string) => {
+    const pad = (n: number) => (padding ? String(n).padStart(padding.length, '0') : String(n));
+    switch (key) {
+      case 'page':
+        return pad(context.page);
+      case 'total':
+        return pad(context.total);
+      case 'filename':
+        return context.filename;
+      case 'date':
+        return formatDate(context.date);
+      default:
+        return token;
+    }
+  });
+
+/**
+ * Centre of a box of `width` x `height` placed at `position` on the page, in PDF points with y up.
+ */
+const getAnchor = (
+  position: StampPosition,
+  width: number,
+  height: number,
+  pageWidth: number,
+  pageHeight: number,
+  margin: number
+): [number, number] => {
+  const [vertical, horizontal = 'center'] = position === 'center' ? ['center'] : position.split('-');
+  const x = horizontal === 'left' ? margin + width / 2
+    : horizontal === 'right' ? pageWidth - margin - width / 2
+    : pageWidth / 2;
+  const y = vertical === 'top' ? pageHeight - margin - height / 2
+    : vertical === 'bottom' ? margin + height / 2
+    : pageHeight / 2;
+  return [x, y];
+};
+
+// Size of the axis-aligned box around a rotated w x h rectangle
+const rotatedBounds = (width: number, height: number, cos: number, sin: number): [number, number] => [
+  Math.abs(width * cos) + Math.abs(height * sin),
+  Math.abs(width * sin) + Math.abs(height * cos),
+];
+
+/**
+ * Draws the stamp on the current page as its own vector content, after (so above) the image.
+ * Everything is placed through the transformation matrix in points, the same way oriented images
+ * are drawn, which keeps rotation independent of jsPDF's y-down page coordinates.
+ */
+const drawStamp = (pdf: jsPDF, options: StampOptions, context: StampContext) => {
+  const k = pdf.internal.scaleFactor;
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const pageWidthPt = pdf.internal.pageSize.getWidth() * k;
+  const pageHeightPt = pageHeight * k;
+  const margin = mmToPx(options.marginMm) * k;
+  const angle = (options.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  pdf.saveGraphicsState();
+  pdf.setGState(pdf.GState({ opacity: options.opacity, 'stroke-opacity': options.opacity }));
+
+  if (options.kind === 'image' && options.logo) {
+    const width = mmToPx(options.logoWidthMm) * k;
+    const height = width * (options.logo.height / options.logo.width);
+    const [cx, cy] = getAnchor(options.position, ...rotatedBounds(width, height, cos, sin), pageWidthPt, pageHeightPt, margin);
+    pdf.setCurrentTransformationMatrix(pdf.Matrix(
+      width * cos, width * sin, -height * sin, height * cos,
+      cx - (width * cos - height * sin) / 2,
+      cy - (width * sin + height * cos) / 2
+    ));
+    // The unit-square trick from drawOrientedImage; the alias embeds the logo once per document
+    pdf.addImage(options.logo.dataUrl, options.logo.format, 0, pageHeight - 1 / k, 1 / k, 1 / k, 'stamp-logo', 'FAST');
+  } else if (options.kind === 'text') {
+    const text = expandStampText(options.text, context);
+    if (text) {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(options.fontSize);
+      pdf.setTextColor(options.color);
+      const width = pdf.getTextWidth(text) * k;
+      const [cx, cy] = getAnchor(options.position, ...rotatedBounds(width, options.fontSize, cos, sin), pageWidthPt, pageHeightPt, margin);
+      pdf.setCurrentTransformationMatrix(pdf.Matrix(cos, sin, -sin, cos, cx, cy));
+      // Baseline-left of the text in the rotated frame, converted back to jsPDF's page units
+      pdf.text(text, -width / 2 / k, pageHeight + (options.fontSize * CAP_CENTER) / k);
+    }
+  }
+
+  pdf.restoreGraphicsState();
+};
+
+/**
+ * Stamps every page of a finished document. Runs last so `{total}` is known;
+ * `pageSources` names the file each page came from. With `numbering`, a single-page document
+ * counts as that page of the batch instead of page 1 of 1.
+ */
+export const applyStamp = (pdf: jsPDF, options: StampOptions, pageSources: string[], numbering?: StampNumbering) => {
+  if (!options.enabled) return;
+  const pages = pdf.getNumberOfPages();
+  const offset = numbering ? numbering.page - 1 : 0;
+  const total = numbering?.total ?? pages;
+  const date = Date.now();
+  for (let page = 1; page <= pages; page++) {
+    pdf.setPage(page);
+    drawStamp(pdf, options, { page: page + offset, total, filename: pageSources[page - 1] ?? '', date });
+  }
+};
+
+/**
+ * Reads a logo file for image stamps. Only PNG and JPEG can be embedded without re-encoding.
+ */
+export const loadStampLogo = async (file: Blob): Promise<StampLogo> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const { format } = detectImageFormat(bytes);
+  if (format !== 'png' && format !== 'jpeg') {
+    throw new Error('Logo must be a PNG or JPEG image');
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  return { dataUrl, format: format === 'png' ? 'PNG' : 'JPEG', width, height };
+};
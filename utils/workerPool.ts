@@ -0,0 +1,287 @@
+import {
+  ConversionOptions, ConversionResult, DocumentInfo, ErrorDiagnosis, ImageFormat, ImageSource, ImageTransform, OcrResult,
+  PageInfo, Quad, StampNumbering,
+} from '../types';
+import { ConversionError, diagnoseError, getCrashDiagnosis } from './diagnostics';
+
+export type JobKind = 'single' | 'merge' | 'cleanup';
+
+export interface WorkerRequest {
+  id: number;
+  kind: JobKind;
+  sources: ImageSource[];
+  options: ConversionOptions;
+  info?: DocumentInfo;
+  numbering?: StampNumbering;
+}
+
+// Sent to every worker as the pool pauses or resumes; merge jobs hold between pages while paused
+export interface WorkerControl {
+  control: 'pause' | 'resume';
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'page'; index: number; error?: ErrorDiagnosis; page?: PageInfo }
+  | { id: number; type: 'done'; pdfBlob: Blob | null; page?: PageInfo }
+  | { id: number; type: 'cleaned'; image: Blob }
+  | { id: number; type: 'error'; error: ErrorDiagnosis };
+
+// A file as queued on the main thread; its bytes are only read once a worker picks it up
+export interface PoolInput {
+  name: string;
+  file: Blob;
+  format: ImageFormat;
+  transform?: ImageTransform;
+  byteBudget?: number;
+  ocr?: OcrResult;
+  corners?: Quad;
+}
+
+export interface JobOptions {
+  // Metadata written into the document the job produces
+  info?: DocumentInfo;
+  // Convert jobs only: the image's place in the batch, for stamp page numbers
+  numbering?: StampNumbering;
+  // Aborting drops a queued job, or stops the worker running it
+  signal?: AbortSignal;
+  // Fired when a worker takes the job off the queue
+  onStart?: () => void;
+  // Merge jobs only: fired as each page is added or skipped
+  onPage?: (index: number, error?: ConversionError, page?: PageInfo) => void;
+}
+
+interface Job extends JobOptions {
+  id: number;
+  kind: JobKind;
+  inputs: PoolInput[];
+  options: ConversionOptions;
+  resolve: (result: JobResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface JobResult {
+  pdfBlob: Blob | null;
+  page?: PageInfo;
+  // Cleanup jobs only: the cleaned-up image
+  image?: Blob;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: Job | null;
+}
+
+export interface WorkerPool {
+  // Most jobs that run at once
+  size: number;
+  convert: (input: PoolInput, options: ConversionOptions, jobOptions?: JobOptions) => Promise<ConversionResult>;
+  merge: (inputs: PoolInput[], options: ConversionOptions, jobOptions?: JobOptions) => Promise<Blob | null>;
+  // Runs scan cleanup on its own, so the cleaned image can be OCR'd before it's converted
+  cleanup: (input: PoolInput, options: ConversionOptions, jobOptions?: JobOptions) => Promise<Blob>;
+  // Stop handing out queued jobs and hold merge jobs before their next page. A single image
+  // already being converted or cleaned up is left to finish.
+  pause: () => void;
+  resume: () => void;
+  // Resolves straight away, or once the pool is resumed; rejects if the signal aborts first
+  whenResumed: (signal?: AbortSignal) => Promise<void>;
+  terminate: () => void;
+}
+
+const abortError = () => new DOMException('Conversion cancelled', 'AbortError');
+
+export const isCancellation = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const getDefaultPoolSize = () => Math.max(1, navigator.hardwareConcurrency || 4);
+
+/**
+ * Runs conversions on a pool of Web Workers fed from one shared queue.
+ * Workers are spawned lazily up to `size`, and whichever worker goes idle first takes the next
+ * job, so one slow image never holds up a whole batch.
+ */
+export const createWorkerPool = (size = getDefaultPoolSize()): WorkerPool => {
+  const workers: PoolWorker[] = [];
+  const queue: Job[] = [];
+  let nextJobId = 1;
+  let terminated = false;
+  let paused = false;
+  const resumeWaiters: (() => void)[] = [];
+
+  const control = (message: WorkerControl) => workers.forEach(w => w.worker.postMessage(message));
+
+  const finish = (slot: PoolWorker) => {
+    slot.job = null;
+    dispatch();
+  };
+
+  const spawn = (): PoolWorker => {
+    const slot: PoolWorker = {
+      worker: new Worker(new URL('./conversion.worker.ts', import.meta.url), { type: 'module' }),
+      job: null,
+    };
+
+    slot.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const job = slot.job;
+      const message = event.data;
+      if (!job || job.id !== message.id) return;
+
+      switch (message.type) {
+        case 'page':
+          job.onPage?.(message.index, message.error && new ConversionError(message.error), message.page);
+          break;
+        case 'done':
+          job.resolve({ pdfBlob: message.pdfBlob, page: message.page });
+          finish(slot);
+          break;
+        case 'cleaned':
+          job.resolve({ pdfBlob: null, image: message.image });
+          finish(slot);
+          break;
+        case 'error':
+          job.reject(new ConversionError(message.error));
+          finish(slot);
+          break;
+      }
+    };
+
+    // A crashed worker can't be trusted with more work; drop it and let dispatch replace it
+    slot.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      slot.job?.reject(new ConversionError(getCrashDiagnosis(event.message || undefined)));
+      removeWorker(slot);
+      dispatch();
+    };
+
+    workers.push(slot);
+    return slot;
+  };
+
+  const removeWorker = (slot: PoolWorker) => {
+    slot.worker.terminate();
+    workers.splice(workers.indexOf(slot), 1);
+  };
+
+  const cancel = (job: Job) => {
+    const queued = queue.indexOf(job);
+    if (queued !== -1) {
+      queue.splice(queued, 1);
+      job.reject(abortError());
+      return;
+    }
+
+    // Workers can't be interrupted mid-job, so the one running it is replaced
+    const slot = workers.find(w => w.job === job);
+    if (slot) {
+      job.reject(abortError());
+      removeWorker(slot);
+      dispatch();
+    }
+  };
+
+  const start = async (slot: PoolWorker, job: Job) => {
+    slot.job = job;
+    job.onStart?.();
+
+    let sources: ImageSource[];
+    try {
+      sources = await Promise.all(job.inputs.map(async input => ({
+        name: input.name,
+        format: input.format,
+        transform: input.transform,
+        byteBudget: input.byteBudget,
+        ocr: input.ocr,
+        corners: input.corners,
+        bytes: new Uint8Array(await input.file.arrayBuffer()),
+      })));
+    } catch (error) {
+      job.reject(new ConversionError(diagnoseError(error)));
+      finish(slot);
+      return;
+    }
+    // Cancelled while the files were being read
+    if (slot.job !== job) return;
+
+    const request: WorkerRequest = {
+      id: job.id, kind: job.kind, sources, options: job.options, info: job.info, numbering: job.numbering,
+    };
+    // Hand the buffers over instead of copying them
+    slot.worker.postMessage(request, sources.map(s => s.bytes.buffer));
+  };
+
+  const dispatch = () => {
+    if (terminated || paused) return;
+    while (queue.length > 0) {
+      const slot = workers.find(w => !w.job) ?? (workers.length < size ? spawn() : null);
+      if (!slot) return;
+      start(slot, queue.shift()!);
+    }
+  };
+
+  const enqueue = (kind: JobKind, inputs: PoolInput[], options: ConversionOptions, jobOptions: JobOptions = {}) =>
+    new Promise<JobResult>((resolve, reject) => {
+      if (terminated) {
+        reject(new Error('Worker pool has been terminated'));
+        return;
+      }
+      if (jobOptions.signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const job: Job = { id: nextJobId++, kind, inputs, options, ...jobOptions, resolve, reject };
+      jobOptions.signal?.addEventListener('abort', () => cancel(job), { once: true });
+      queue.push(job);
+      dispatch();
+    });
+
+  return {
+    size,
+    convert: async (input, options, jobOptions) => {
+      const { pdfBlob, page } = await enqueue('single', [input], options, jobOptions);
+      if (!pdfBlob || !page) {
+        throw new Error(`No PDF produced for ${input.name}`);
+      }
+      return { pdfBlob, ...page };
+    },
+    merge: async (inputs, options, jobOptions) => (await enqueue('merge', inputs, options, jobOptions)).pdfBlob,
+    cleanup: async (input, options, jobOptions) => {
+      const { image } = await enqueue('cleanup', [input], options, jobOptions);
+      if (!image) {
+        throw new Error(`No image produced for ${input.name}`);
+      }
+      return image;
+    },
+    pause: () => {
+      paused = true;
+      control({ control: 'pause' });
+    },
+    resume: () => {
+      paused = false;
+      control({ control: 'resume' });
+      resumeWaiters.splice(0).forEach(resolve => resolve());
+      dispatch();
+    },
+    whenResumed: signal => new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      if (!paused) return resolve();
+      const onAbort = () => {
+        resumeWaiters.splice(resumeWaiters.indexOf(done), 1);
+        reject(abortError());
+      };
+      const done = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      resumeWaiters.push(done);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }),
+    terminate: () => {
+      terminated = true;
+      workers.forEach(w => {
+        w.job?.reject(new Error('Worker pool has been terminated'));
+        w.worker.terminate();
+      });
+      workers.length = 0;
+      queue.splice(0).forEach(job => job.reject(new Error('Worker pool has been terminated')));
+    },
+  };
+};
@@ -0,0 +1,169 @@
+import JSZip from 'jszip';
+import { ExportOptions, FileData, MergedOutput, SourceFile } from '../types';
+import { getFolderPath } from './grouping';
+import { applyNameTemplate, claimUniquePath, sanitizeSegment, stripExtension } from './naming';
+
+export interface ExportEntry {
+  path: string;
+  blob: Blob;
+}
+
+const joinPath = (...segments: string[]) => segments.filter(Boolean).join('/');
+
+// Keeps the directory structure but drops anything that could escape the archive root
+const sanitizeFolderPath = (folder: string) =>
+  folder.split('/').map(sanitizeSegment).filter(s => s && s !== '..').join('/');
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Receives an archive as it's generated, a chunk at a time
+export interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  // Called instead of close when generation fails part way
+  abort: () => Promise<void>;
+}
+
+/**
+ * Name of the archive, or of one part of it when the export is split, e.g. "scans_part2.zip".
+ */
+export const getZipFileName = (options: ExportOptions, part = 1, parts = 1) => {
+  const base = sanitizeSegment(options.zipName) || 'converted_pdfs';
+  return parts > 1 ? `${base}_part${String(part).padStart(String(parts).length, '0')}.zip` : `${base}.zip`;
+};
+
+/**
+ * Archive path of one file, `index` being its 1-based place in the export.
+ * Names come from the template; `taken` holds the paths handed out so far, and a collision
+ * (including one created by flattening folders) gets a numeric suffix instead of overwriting.
+ */
+export const getFilePath = (file: SourceFile, index: number, options: ExportOptions, taken: Set<string>): string => {
+  const name = applyNameTemplate(options.nameTemplate, {
+    name: stripExtension(file.file.name),
+    index,
+    date: file.capturedAt ?? file.file.lastModified,
+    width: file.width,
+    height: file.height,
+  });
+  const folder = options.preserveFolders ? sanitizeFolderPath(getFolderPath(file)) : '';
+  return claimUniquePath(joinPath(sanitizeFolderPath(options.folderName), folder, `${name}.pdf`), taken);
+};
+
+// Archive entries of the converted files, in queue order
+export const getFileEntries = (files: (SourceFile & { pdfBlob?: Blob })[], options: ExportOptions): ExportEntry[] => {
+  const taken = new Set<string>();
+  return files
+    .filter(file => file.pdfBlob)
+    .map((file, i) => ({ path: getFilePath(file, i + 1, options, taken), blob: file.pdfBlob! }));
+};
+
+/**
+ * Archive path of a merged document, named after its group. `first` is the file on its first
+ * page, which size and date tokens describe.
+ */
+export const getMergedPath = (
+  name: string,
+  index: number,
+  first: SourceFile | undefined,
+  options: ExportOptions,
+  taken: Set<string>
+): string => {
+  const fileName = applyNameTemplate(options.nameTemplate, {
+    name,
+    index,
+    date: first ? first.capturedAt ?? first.file.lastModified : undefined,
+    width: first?.width,
+    height: first?.height,
+  });
+  return claimUniquePath(joinPath(sanitizeFolderPath(options.folderName), `${fileName}.pdf`), taken);
+};
+
+export const getMergedEntries = (
+  outputs: MergedOutput[],
+  files: (SourceFile & { id: string })[],
+  options: ExportOptions
+): ExportEntry[] => {
+  const taken = new Set<string>();
+  return outputs.map((output, i) => ({
+    path: getMergedPath(output.name, i + 1, files.find(f => f.id === output.fileIds[0]), options, taken),
+    blob: output.pdfBlob,
+  }));
+};
+
+/**
+ * Splits entries into archives of at most `splitSizeMb` each, keeping their order.
+ * A PDF larger than the cap gets an archive to itself; 0 keeps everything in one.
+ */
+export const splitEntries = (entries: ExportEntry[], splitSizeMb: number): ExportEntry[][] => {
+  const cap = splitSizeMb * BYTES_PER_MB;
+  if (!(cap > 0)) return entries.length > 0 ? [entries] : [];
+
+  const parts: ExportEntry[][] = [];
+  let current: ExportEntry[] = [];
+  let size = 0;
+  entries.forEach(entry => {
+    if (current.length > 0 && size + entry.blob.size > cap) {
+      parts.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(entry);
+    size += entry.blob.size;
+  });
+  if (current.length > 0) parts.push(current);
+  return parts;
+};
+
+/**
+ * Streams a ZIP of `entries` into `sink`, waiting for each chunk to be written before
+ * generating the next, so the finished archive never sits in memory as a whole.
+ * PDFs are stored rather than compressed again. `onProgress` gets 0-100.
+ */
+export const writeZip = async (
+  entries: ExportEntry[],
+  sink: ZipSink,
+  onProgress?: (percent: number) => void
+): Promise<void> => {
+  const zip = new JSZip();
+  entries.forEach(entry => {
+    zip.file(entry.path, entry.blob);
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let written = Promise.resolve();
+      const stream = zip.generateInternalStream({ type: 'uint8array', streamFiles: true, compression: 'STORE' });
+      stream.on('data', (chunk, metadata) => {
+        stream.pause();
+        written = sink.write(chunk).then(() => {
+          onProgress?.(metadata.percent);
+          stream.resume();
+        });
+        written.catch(reject);
+      });
+      stream.on('error', reject);
+      stream.on('end', () => written.then(resolve, reject));
+      stream.resume();
+    });
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  }
+  await sink.close();
+};
+
+// Collects the archive in chunks, for when there's nowhere to stream it to. Browsers can page
+// a large Blob out to disk, which they can't do for one big buffer.
+export const createBlobSink = (): ZipSink & { toBlob: () => Blob } => {
+  const chunks: Uint8Array[] = [];
+  return {
+    write: async chunk => {
+      chunks.push(chunk);
+    },
+    close: async () => {},
+    abort: async () => {
+      chunks.length = 0;
+    },
+    toBlob: () => new Blob(chunks, { type: 'application/zip' }),
+  };
+};
@@ -0,0 +1,25 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the batchsnap command-line tool (cli/batchsnap.ts) for Node. Dependencies stay external
+// and are loaded from node_modules at runtime.
+export default defineConfig({
+  // The app's icons and manifest have no place next to the script
+  publicDir: false,
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    },
+  },
+  build: {
+    ssr: path.resolve(__dirname, 'cli/batchsnap.ts'),
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'batchsnap.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
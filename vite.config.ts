@@ -1,7 +1,52 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// OCR engines and language models are tens of MB, so they're cached the first time OCR runs
+const LAZY_ASSETS = /tesseract-core|\.traineddata/;
+
+/**
+ * Fills the service worker's precache list with everything the build emits (bundle and public/)
+ * and stamps it with a build id hashed from their contents, so each deploy installs a fresh cache.
+ */
+const serviceWorkerManifest = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'batchsnap-sw-manifest',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const sw = bundle['sw.js'];
+      if (!sw || sw.type !== 'chunk') return;
+
+      const publicFiles = (readdirSync(publicDir, { recursive: true, withFileTypes: true }))
+        .filter(entry => entry.isFile())
+        .map(entry => path.relative(publicDir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+      const files = [...Object.keys(bundle).filter(name => name !== 'sw.js'), ...publicFiles]
+        .filter(name => !LAZY_ASSETS.test(name) && !name.endsWith('.map'))
+        .sort();
+      // Contents as well as names: public/ files keep their names when edited
+      const hash = createHash('sha256');
+      files.forEach(name => {
+        const output = bundle[name];
+        const contents = !output
+          ? readFileSync(path.join(publicDir, name))
+          : output.type === 'chunk' ? output.code : output.source;
+        hash.update(`${name}\n`).update(contents).update('\n');
+      });
+      const buildId = hash.digest('hex').slice(0, 12);
+
+      sw.code = sw.code
+        .replace('__PRECACHE_MANIFEST__', JSON.stringify(['./', ...files]))
+        .replace('__BUILD_ID__', JSON.stringify(buildId));
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +54,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerManifest()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -18,6 +63,22 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // The conversion worker is started as a module worker, and jsPDF's lazy imports need code splitting
+      worker: {
+        format: 'es',
+      },
+      build: {
+        rollupOptions: {
+          input: {
+            index: path.resolve(__dirname, 'index.html'),
+            sw: path.resolve(__dirname, 'serviceWorker.ts'),
+          },
+          output: {
+            // The service worker's URL decides its scope, so it stays at the root under a fixed name
+            entryFileNames: chunk => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js'),
+          },
+        },
+      },
     };
 });